@@ -0,0 +1,253 @@
+// Copyright 2025 The Chromium Authors
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import type {PongStringId} from './pong_strings.js';
+import {curveVelocity, decaySpin} from './spin.js';
+
+/**
+ * CPU difficulty levels, in the order they are cycled on the start screen.
+ */
+export enum AiDifficulty {
+  EASY,
+  NORMAL,
+  HARD,
+  INSANE,
+}
+
+/**
+ * Tuning for one difficulty level.
+ */
+export interface AiDifficultyPreset {
+  // Name shown in the menu.
+  labelId: PongStringId;
+  // Time in ms before the CPU reacts to the ball heading its way.
+  reactionDelay: number;
+  // 0 tracks the ball's current height, 1 aims at the predicted crossing.
+  predictionAccuracy: number;
+  // Maximum aiming error in px, rolled once per shot.
+  aimError: number;
+  // Fraction of the paddle speed the CPU may use.
+  maxSpeed: number;
+  // Chance per shot of deliberately misjudging the ball.
+  mistakeChance: number;
+}
+
+export const AI_DIFFICULTY_PRESETS: Record<AiDifficulty, AiDifficultyPreset> = {
+  [AiDifficulty.EASY]: {
+    labelId: 'pongDifficultyEasy',
+    reactionDelay: 250,
+    predictionAccuracy: 0.3,
+    aimError: 18,
+    maxSpeed: 0.55,
+    mistakeChance: 0.25,
+  },
+  [AiDifficulty.NORMAL]: {
+    labelId: 'pongDifficultyNormal',
+    reactionDelay: 120,
+    predictionAccuracy: 0.8,
+    aimError: 10,
+    maxSpeed: 0.85,
+    mistakeChance: 0.1,
+  },
+  [AiDifficulty.HARD]: {
+    labelId: 'pongDifficultyHard',
+    reactionDelay: 60,
+    predictionAccuracy: 1,
+    aimError: 6,
+    maxSpeed: 0.95,
+    mistakeChance: 0.03,
+  },
+  [AiDifficulty.INSANE]: {
+    labelId: 'pongDifficultyInsane',
+    reactionDelay: 0,
+    predictionAccuracy: 1,
+    aimError: 2,
+    maxSpeed: 1.2,
+    mistakeChance: 0,
+  },
+};
+
+/**
+ * Ball properties the strategy reads.
+ */
+export interface BallView {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  spin: number;
+  size: number;
+}
+
+/**
+ * Paddle properties the strategy reads.
+ */
+export interface PaddleView {
+  x: number;
+  y: number;
+  height: number;
+}
+
+/**
+ * Where the CPU wants its paddle to be, and how fast it may get there.
+ */
+export interface AiTarget {
+  targetY: number;
+  // Fraction of the paddle speed to move at.
+  speed: number;
+}
+
+// Longest curved path, in ticks, followed when predicting the ball.
+const MAX_PREDICTION_TICKS: number = 1000;
+
+/**
+ * Predict the ball's centre height when it reaches `x`, folding bounces off
+ * the top and bottom walls back into the court.
+ */
+export function predictBallY(
+    ball: BallView, x: number, courtHeight: number): number {
+  const centerY = ball.y + ball.size / 2;
+  if (ball.vx === 0) {
+    return centerY;
+  }
+  if (ball.spin !== 0) {
+    return predictCurvedBallY(ball, x, courtHeight);
+  }
+
+  const timeToReach = (x - ball.x) / ball.vx;
+  const predictedY = centerY + ball.vy * timeToReach;
+
+  // Reflect into [0, courtHeight] as many times as the ball would bounce.
+  const period = courtHeight * 2;
+  const wrapped = ((predictedY % period) + period) % period;
+  return wrapped > courtHeight ? period - wrapped : wrapped;
+}
+
+/**
+ * Predict where a spinning ball reaches `x` by following its curve tick by
+ * tick, the same way the ball moves.
+ */
+function predictCurvedBallY(
+    ball: BallView, x: number, courtHeight: number): number {
+  let ballX = ball.x;
+  let centerY = ball.y + ball.size / 2;
+  let {vx, vy, spin} = ball;
+
+  for (let i = 0; i < MAX_PREDICTION_TICKS && (x - ballX) * vx > 0; i++) {
+    ({vx, vy} = curveVelocity(vx, vy, spin));
+    spin = decaySpin(spin);
+    ballX += vx;
+    centerY += vy;
+    if (centerY < 0) {
+      centerY = -centerY;
+      vy = -vy;
+    } else if (centerY > courtHeight) {
+      centerY = courtHeight * 2 - centerY;
+      vy = -vy;
+    }
+  }
+  return Math.max(0, Math.min(courtHeight, centerY));
+}
+
+/**
+ * Pick the ball a paddle should play: of the balls heading toward it, the
+ * one that will reach it soonest, otherwise the one closest to it.
+ */
+export function selectTargetBall<T extends BallView>(
+    balls: T[], paddle: PaddleView): T|null {
+  let target: T|null = null;
+  let targetTime = Infinity;
+  let closest: T|null = null;
+  let closestDistance = Infinity;
+
+  for (const ball of balls) {
+    const distance = Math.abs(paddle.x - ball.x);
+    if (distance < closestDistance) {
+      closest = ball;
+      closestDistance = distance;
+    }
+
+    const approaching = paddle.x > ball.x ? ball.vx > 0 : ball.vx < 0;
+    if (approaching) {
+      const timeToReach = distance / Math.abs(ball.vx);
+      if (timeToReach < targetTime) {
+        target = ball;
+        targetTime = timeToReach;
+      }
+    }
+  }
+  return target ?? closest;
+}
+
+/**
+ * Decides where the CPU paddle should move. Kept free of canvas and game
+ * state so it can be driven with plain ball and paddle objects.
+ */
+export class AiStrategy {
+  private preset: AiDifficultyPreset;
+  private random: () => number;
+
+  // Time since the ball started heading toward the paddle.
+  private approachTime: number = 0;
+  private wasApproaching: boolean = false;
+  // Aiming error for the current shot.
+  private shotOffset: number = 0;
+
+  constructor(
+      difficulty: AiDifficulty, random: () => number = Math.random) {
+    this.preset = AI_DIFFICULTY_PRESETS[difficulty];
+    this.random = random;
+  }
+
+  /**
+   * Compute the target for this frame.
+   */
+  update(
+      ball: BallView, paddle: PaddleView, courtHeight: number,
+      deltaTime: number): AiTarget {
+    // Whether the ball is travelling toward this paddle's side.
+    const approaching = paddle.x > ball.x ? ball.vx > 0 : ball.vx < 0;
+
+    if (!approaching) {
+      this.wasApproaching = false;
+      // Ball moving away, drift back toward center
+      return {targetY: courtHeight / 2, speed: this.preset.maxSpeed * 0.5};
+    }
+
+    if (!this.wasApproaching) {
+      this.startShot(paddle);
+    }
+    this.approachTime += deltaTime;
+
+    if (this.approachTime < this.preset.reactionDelay) {
+      // Still reacting, hold position.
+      return {targetY: paddle.y + paddle.height / 2, speed: 0};
+    }
+
+    const currentY = ball.y + ball.size / 2;
+    const predictedY = predictBallY(ball, paddle.x, courtHeight);
+    const aimY = currentY +
+        (predictedY - currentY) * this.preset.predictionAccuracy;
+
+    return {
+      targetY: aimY + this.shotOffset,
+      speed: this.preset.maxSpeed,
+    };
+  }
+
+  /**
+   * Roll the aiming error for a new shot.
+   */
+  private startShot(paddle: PaddleView) {
+    this.wasApproaching = true;
+    this.approachTime = 0;
+    this.shotOffset = (this.random() - 0.5) * 2 * this.preset.aimError;
+
+    if (this.random() < this.preset.mistakeChance) {
+      // Misjudge by enough to miss the ball with the paddle edge.
+      const direction = this.random() < 0.5 ? -1 : 1;
+      this.shotOffset = direction * paddle.height * 0.75;
+    }
+  }
+}
@@ -2,8 +2,44 @@
 // Use of this source code is governed by a BSD-style license that can be
 // found in the LICENSE file.
 
+import {sweepBox} from './collision.js';
+import type {SweepHit} from './collision.js';
 import {PONG_CONFIG} from './constants.js';
+import type {CollisionBox} from './offline_sprite_definitions.js';
 import type {Paddle} from './paddle.js';
+import type {RenderTheme} from './render_theme.js';
+import {curveVelocity, decaySpin, getSpinFromPaddle} from './spin.js';
+import {TimedEffect} from './timed_effect.js';
+
+/**
+ * Upper bound on bounces resolved within a single tick.
+ */
+const MAX_COLLISIONS_PER_TICK = 4;
+
+/**
+ * Steepest heading, from horizontal, of a ball split off for multiball.
+ */
+const MAX_SPLIT_ANGLE = Math.PI / 3;
+
+/**
+ * Hits at least this far from the center of a paddle, as a fraction of half
+ * its height, are edge shots. So are hits on its top and bottom.
+ */
+const EDGE_HIT_ZONE = 0.75;
+
+/**
+ * Things that happened to the ball while advancing by one tick, in order.
+ */
+export type BallEvent =
+    // `edge` is whether the ball came off the edge of the paddle, and `speed`
+    // is the ball's speed leaving it in px per tick.
+    {type: 'paddle-hit', paddle: Paddle, edge: boolean, speed: number} |
+    // Bounce off the top or bottom wall.
+    {type: 'wall-bounce'} |
+    // Bounce off a barrier, e.g. a shield.
+    {type: 'barrier-hit', barrier: CollisionBox} |
+    // The ball went past the left or right edge of the court. Always last.
+    {type: 'exit', side: 'left' | 'right'};
 
 /**
  * Represents the ball in the Pong game.
@@ -13,30 +49,56 @@ export class Ball {
   y: number;
   vx: number;
   vy: number;
+  // Heading change in radians per tick from the paddle that last hit the
+  // ball, positive curving downward. Decays over time.
+  spin: number = 0;
   size: number;
+  // Fastest the ball gets from paddle hits, in px per tick.
+  maxSpeed: number;
+  // Side of the paddle that last hit the ball, null before the first hit.
+  lastHitter: 'left' | 'right' | null = null;
+  // Position at the start of the current tick, for interpolated drawing.
+  private prevX: number;
+  private prevY: number;
   private canvasWidth: number;
   private canvasHeight: number;
   private baseSpeed: number;
+  // Slow ball power-up.
+  private slowEffect: TimedEffect = new TimedEffect();
 
-  constructor(canvasWidth: number, canvasHeight: number) {
+  constructor(
+      canvasWidth: number, canvasHeight: number,
+      size: number = PONG_CONFIG.BALL_SIZE) {
     this.canvasWidth = canvasWidth;
     this.canvasHeight = canvasHeight;
-    this.size = PONG_CONFIG.BALL_SIZE;
+    this.size = size;
     this.baseSpeed = PONG_CONFIG.BALL_SPEED;
+    this.maxSpeed = this.baseSpeed * PONG_CONFIG.MAX_BALL_SPEED_SCALE;
 
     // Initialize at center
     this.x = canvasWidth / 2 - this.size / 2;
     this.y = canvasHeight / 2 - this.size / 2;
     this.vx = 0;
     this.vy = 0;
+    this.prevX = this.x;
+    this.prevY = this.y;
+  }
+
+  /**
+   * Remember the current position as the start of a new tick.
+   */
+  savePosition() {
+    this.prevX = this.x;
+    this.prevY = this.y;
   }
 
   /**
    * Start ball movement in a random direction.
+   * @param random Source of randomness, seeded so matches are reproducible.
    */
-  launch(towardPlayer: boolean = false) {
+  launch(towardPlayer: boolean, random: () => number) {
     // Random angle between -45 and 45 degrees
-    const angle = (Math.random() - 0.5) * Math.PI / 2;
+    const angle = (random() - 0.5) * Math.PI / 2;
     const direction = towardPlayer ? -1 : 1;
 
     this.vx = Math.cos(angle) * this.baseSpeed * direction;
@@ -44,89 +106,187 @@ export class Ball {
   }
 
   /**
-   * Update ball position and handle wall collisions.
-   * Returns: 'left' if ball went past left edge, 'right' if past right edge, null otherwise.
+   * Advance the ball by one tick, bouncing off walls and paddles.
+   *
+   * Movement is swept: the earliest impact along the ball's path is found
+   * and resolved before the rest of the tick's movement continues, so a fast
+   * ball cannot pass through a thin paddle.
    */
-  update(deltaTime: number): 'left' | 'right' | null {
-    const timeScale = deltaTime / 16.67; // Normalize to ~60fps
+  update(paddles: Paddle[], barriers: CollisionBox[] = []): BallEvent[] {
+    const events: BallEvent[] = [];
+    // Fraction of the tick's movement left to travel.
+    let remaining = 1;
+    const speedScale = this.getSpeedScale();
+    this.applySpin();
 
-    this.x += this.vx * timeScale;
-    this.y += this.vy * timeScale;
+    for (let i = 0; i < MAX_COLLISIONS_PER_TICK && remaining > 0; i++) {
+      const dx = this.vx * speedScale * remaining;
+      const dy = this.vy * speedScale * remaining;
 
-    // Top wall collision
-    if (this.y <= 0) {
-      this.y = 0;
-      this.vy = -this.vy;
-    }
+      let earliestHit = this.sweepWalls(dy);
+      let hitPaddle: Paddle | null = null;
+      let hitBarrier: CollisionBox | null = null;
+      for (const paddle of paddles) {
+        const hit = sweepBox(this.getBounds(), dx, dy, paddle.getBounds());
+        if (hit && (!earliestHit || hit.time < earliestHit.time)) {
+          earliestHit = hit;
+          hitPaddle = paddle;
+        }
+      }
+      for (const barrier of barriers) {
+        const hit = sweepBox(this.getBounds(), dx, dy, barrier);
+        if (hit && (!earliestHit || hit.time < earliestHit.time)) {
+          earliestHit = hit;
+          hitPaddle = null;
+          hitBarrier = barrier;
+        }
+      }
 
-    // Bottom wall collision
-    if (this.y + this.size >= this.canvasHeight) {
-      this.y = this.canvasHeight - this.size;
-      this.vy = -this.vy;
+      if (!earliestHit) {
+        this.x += dx;
+        this.y += dy;
+        break;
+      }
+
+      // Move to the point of impact and resolve it.
+      this.x += dx * earliestHit.time;
+      this.y += dy * earliestHit.time;
+      remaining *= 1 - earliestHit.time;
+
+      if (hitPaddle) {
+        const edge = this.bounceOffPaddle(hitPaddle, earliestHit);
+        events.push({
+          type: 'paddle-hit',
+          paddle: hitPaddle,
+          edge,
+          speed: this.getSpeed(),
+        });
+      } else if (hitBarrier) {
+        // Barriers reflect the ball like a wall, without changing its speed.
+        if (earliestHit.normalX !== 0) {
+          this.vx = earliestHit.normalX * Math.abs(this.vx);
+        } else {
+          this.vy = earliestHit.normalY * Math.abs(this.vy);
+        }
+        events.push({type: 'barrier-hit', barrier: hitBarrier});
+      } else {
+        this.vy = -this.vy;
+        events.push({type: 'wall-bounce'});
+      }
     }
 
     // Check if ball went past edges (scoring)
     if (this.x + this.size < 0) {
-      return 'left'; // AI scores
-    }
-    if (this.x > this.canvasWidth) {
-      return 'right'; // Player scores
+      events.push({type: 'exit', side: 'left'}); // AI scores
+    } else if (this.x > this.canvasWidth) {
+      events.push({type: 'exit', side: 'right'}); // Player scores
     }
 
+    return events;
+  }
+
+  /**
+   * Curve the ball's path by its spin, which then wears off.
+   */
+  private applySpin() {
+    ({vx: this.vx, vy: this.vy} = curveVelocity(this.vx, this.vy, this.spin));
+    this.spin = decaySpin(this.spin);
+  }
+
+  /**
+   * Find when the ball's vertical movement reaches the top or bottom wall.
+   */
+  private sweepWalls(dy: number): SweepHit | null {
+    if (dy < 0 && this.y + dy < 0) {
+      return {time: Math.max(0, -this.y / dy), normalX: 0, normalY: 1};
+    }
+    const maxY = this.canvasHeight - this.size;
+    if (dy > 0 && this.y + dy > maxY) {
+      return {
+        time: Math.max(0, (maxY - this.y) / dy),
+        normalX: 0,
+        normalY: -1,
+      };
+    }
     return null;
   }
 
   /**
-   * Check and handle collision with a paddle.
-   * Returns true if collision occurred.
+   * Bounce off a paddle at the point of impact.
+   * @return Whether the ball hit the edge of the paddle.
    */
-  checkPaddleCollision(paddle: Paddle): boolean {
+  private bounceOffPaddle(paddle: Paddle, hit: SweepHit): boolean {
     const bounds = paddle.getBounds();
 
-    // Check if ball overlaps with paddle
-    if (
-      this.x < bounds.x + bounds.width &&
-      this.x + this.size > bounds.x &&
-      this.y < bounds.y + bounds.height &&
-      this.y + this.size > bounds.y
-    ) {
-      // Calculate where on the paddle the ball hit (-1 to 1)
-      const paddleCenter = bounds.y + bounds.height / 2;
-      const ballCenter = this.y + this.size / 2;
-      const relativeIntersect = (ballCenter - paddleCenter) / (bounds.height / 2);
-
-      // Bounce angle based on hit position (max 60 degrees)
-      const bounceAngle = relativeIntersect * (Math.PI / 3);
-
-      // Determine direction based on which paddle was hit
-      const direction = this.vx > 0 ? -1 : 1;
-
-      // Increase speed slightly with each hit (up to 1.5x base)
-      const currentSpeed = Math.sqrt(this.vx * this.vx + this.vy * this.vy);
-      const newSpeed = Math.min(currentSpeed * 1.05, this.baseSpeed * 1.5);
-
-      this.vx = Math.cos(bounceAngle) * newSpeed * direction;
-      this.vy = Math.sin(bounceAngle) * newSpeed;
-
-      // Push ball out of paddle to prevent multiple collisions
-      if (direction === -1) {
-        this.x = bounds.x - this.size;
-      } else {
-        this.x = bounds.x + bounds.width;
-      }
-
+    if (hit.normalY !== 0) {
+      // Hit the top or bottom edge, deflect vertically and keep travelling
+      // in the same horizontal direction.
+      this.y = hit.normalY < 0 ? bounds.y - this.size :
+                                 bounds.y + bounds.height;
+      this.vy = hit.normalY * Math.abs(this.vy);
       return true;
     }
 
-    return false;
+    // Calculate where on the paddle the ball hit (-1 to 1)
+    const paddleCenter = bounds.y + bounds.height / 2;
+    const ballCenter = this.y + this.size / 2;
+    const relativeIntersect = Math.max(
+        -1,
+        Math.min(1, (ballCenter - paddleCenter) / (bounds.height / 2)));
+
+    // Bounce angle based on hit position (max 60 degrees)
+    const bounceAngle = relativeIntersect * (Math.PI / 3);
+
+    // Send the ball back out of the face that was hit
+    const direction = hit.normalX;
+
+    // Increase speed slightly with each hit, up to the maximum
+    const currentSpeed = Math.sqrt(this.vx * this.vx + this.vy * this.vy);
+    const newSpeed = Math.min(currentSpeed * 1.05, this.maxSpeed);
+
+    this.vx = Math.cos(bounceAngle) * newSpeed * direction;
+    this.vy = Math.sin(bounceAngle) * newSpeed;
+    this.spin = getSpinFromPaddle(paddle.getVelocity());
+
+    // Sit the ball against the face, in case it started the tick inside the
+    // paddle
+    this.x = direction < 0 ? bounds.x - this.size : bounds.x + bounds.width;
+    return Math.abs(relativeIntersect) >= EDGE_HIT_ZONE;
+  }
+
+  /**
+   * Get the collision bounds of the ball.
+   */
+  getBounds(): CollisionBox {
+    return {
+      x: this.x,
+      y: this.y,
+      width: this.size,
+      height: this.size,
+    };
   }
 
   /**
    * Draw the ball on the canvas.
+   * @param alpha Progress through the current tick (0-1), used to
+   *     interpolate between the previous and current position.
    */
-  draw(ctx: CanvasRenderingContext2D) {
-    ctx.fillStyle = '#535353';
-    ctx.fillRect(this.x, this.y, this.size, this.size);
+  draw(
+      ctx: CanvasRenderingContext2D, theme: RenderTheme, alpha: number = 1) {
+    const x = this.prevX + (this.x - this.prevX) * alpha;
+    const y = this.prevY + (this.y - this.prevY) * alpha;
+    if (this.isSlowed()) {
+      // Hollow while slowed.
+      ctx.strokeStyle = theme.foreground;
+      ctx.lineWidth = theme.lineWidth;
+      const inset = theme.lineWidth / 2;
+      ctx.strokeRect(
+          x + inset, y + inset, this.size - theme.lineWidth,
+          this.size - theme.lineWidth);
+    } else {
+      ctx.fillStyle = theme.foreground;
+      ctx.fillRect(x, y, this.size, this.size);
+    }
   }
 
   /**
@@ -137,6 +297,85 @@ export class Ball {
     this.y = this.canvasHeight / 2 - this.size / 2;
     this.vx = 0;
     this.vy = 0;
+    this.spin = 0;
+    this.lastHitter = null;
+    this.slowEffect.cancel();
+    this.savePosition();
+  }
+
+  /**
+   * Move the ball into a resized court. Its position and velocity are scaled
+   * with the court, so it keeps its place and timing in the rally.
+   */
+  resize(canvasWidth: number, canvasHeight: number) {
+    const scaleX = canvasWidth / this.canvasWidth;
+    const scaleY = canvasHeight / this.canvasHeight;
+    const half = this.size / 2;
+    this.x = (this.x + half) * scaleX - half;
+    this.y = (this.y + half) * scaleY - half;
+    this.prevX = (this.prevX + half) * scaleX - half;
+    this.prevY = (this.prevY + half) * scaleY - half;
+    this.vx *= scaleX;
+    this.vy *= scaleY;
+    this.canvasWidth = canvasWidth;
+    this.canvasHeight = canvasHeight;
+  }
+
+  /**
+   * Current speed in px per tick.
+   */
+  getSpeed(): number {
+    return Math.sqrt(this.vx * this.vx + this.vy * this.vy) *
+        this.getSpeedScale();
+  }
+
+  /**
+   * Slow the ball down for a number of ticks.
+   */
+  slowDown(ticks: number) {
+    this.slowEffect.start(ticks);
+  }
+
+  isSlowed(): boolean {
+    return this.slowEffect.isActive();
+  }
+
+  private getSpeedScale(): number {
+    return this.isSlowed() ? PONG_CONFIG.POWER_UP_SLOW_SCALE : 1;
+  }
+
+  /**
+   * Count down timed effects by one tick.
+   * @return Whether an effect ended.
+   */
+  updateEffects(): boolean {
+    return this.slowEffect.tick();
+  }
+
+  /**
+   * Create a ball at the same position, heading off at an angle to this one.
+   * Used for multiball.
+   * @param angle Rotation from this ball's heading, in radians.
+   */
+  split(angle: number): Ball {
+    const ball = new Ball(this.canvasWidth, this.canvasHeight, this.size);
+    ball.x = this.x;
+    ball.y = this.y;
+    ball.savePosition();
+    ball.maxSpeed = this.maxSpeed;
+    ball.spin = this.spin;
+    ball.lastHitter = this.lastHitter;
+    ball.slowEffect.start(this.slowEffect.getTicksLeft());
+
+    // Keep the new heading playable rather than close to vertical.
+    const speed = Math.sqrt(this.vx * this.vx + this.vy * this.vy);
+    const direction = this.vx < 0 ? -1 : 1;
+    const heading = Math.atan2(this.vy, Math.abs(this.vx)) + angle;
+    const clampedHeading =
+        Math.max(-MAX_SPLIT_ANGLE, Math.min(MAX_SPLIT_ANGLE, heading));
+    ball.vx = Math.cos(clampedHeading) * speed * direction;
+    ball.vy = Math.sin(clampedHeading) * speed;
+    return ball;
   }
 
   /**
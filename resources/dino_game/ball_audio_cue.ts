@@ -0,0 +1,87 @@
+// Copyright 2025 The Chromium Authors
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import type {Ball} from './ball.js';
+import {IS_RTL, PONG_CONFIG} from './constants.js';
+import type {Dimensions} from './dimensions.js';
+import type {ContinuousTone, GeneratedSoundFxProvider} from './generated_sound_fx.js';
+import type {Paddle} from './paddle.js';
+
+// Pitch of the tracking tone when the ball is level with the paddle.
+const BASE_FREQUENCY: number = 440;
+
+// Octaves the pitch shifts by when the ball is a full court height above or
+// below the paddle.
+const PITCH_RANGE_OCTAVES: number = 1.5;
+
+/**
+ * Lets a player track the ball by ear. A continuous tone is panned to the
+ * ball's horizontal position and pitched by how far the ball is above (higher)
+ * or below (lower) the player's paddle, and a short cue sounds as the ball
+ * closes in on the paddle.
+ */
+export class BallAudioCue {
+  private resourceProvider: GeneratedSoundFxProvider;
+  private tone: ContinuousTone|null = null;
+  // Whether the approach cue has sounded for the current approach.
+  private approachCueFired: boolean = false;
+
+  constructor(resourceProvider: GeneratedSoundFxProvider) {
+    this.resourceProvider = resourceProvider;
+  }
+
+  /**
+   * Update the tone for the ball's position. Call once per frame while the
+   * ball is in play.
+   */
+  update(ball: Ball, paddle: Paddle, court: Dimensions) {
+    const soundFx = this.resourceProvider.getGeneratedSoundFx();
+    if (!soundFx) {
+      return;
+    }
+
+    const ballCenterX = ball.x + ball.size / 2;
+    const ballCenterY = ball.y + ball.size / 2;
+    const paddleCenterX = paddle.x + paddle.width / 2;
+    const paddleCenterY = paddle.y + paddle.height / 2;
+
+    // Positive when the ball is above the paddle.
+    const offset = (paddleCenterY - ballCenterY) / court.height;
+    const frequency =
+        BASE_FREQUENCY * Math.pow(2, offset * PITCH_RANGE_OCTAVES);
+    let pan = Math.max(-1, Math.min(1, ballCenterX / court.width * 2 - 1));
+    if (IS_RTL) {
+      // Match the mirrored court.
+      pan = -pan;
+    }
+
+    if (!this.tone) {
+      this.tone = soundFx.startTone(frequency);
+    }
+    this.tone.setFrequency(frequency);
+    this.tone.setPan(pan);
+
+    const towardPaddle =
+        Math.sign(paddleCenterX - ballCenterX) === Math.sign(ball.vx);
+    const distance = Math.abs(paddleCenterX - ballCenterX) -
+        (paddle.width + ball.size) / 2;
+    if (!towardPaddle) {
+      this.approachCueFired = false;
+    } else if (
+        !this.approachCueFired &&
+        distance <= PONG_CONFIG.AUDIO_CUE_PROXIMITY) {
+      this.approachCueFired = true;
+      soundFx.proximityCue(pan);
+    }
+  }
+
+  /**
+   * Silence the tone, e.g. between points or while paused.
+   */
+  stop() {
+    this.tone?.stop();
+    this.tone = null;
+    this.approachCueFired = false;
+  }
+}
@@ -0,0 +1,89 @@
+// Copyright 2025 The Chromium Authors
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import type {Dimensions} from './dimensions.js';
+
+/**
+ * Sizes a canvas's backing store to the display's device pixel ratio, which
+ * may be fractional (e.g. 1.25 or 1.5), and maps court coordinates onto it so
+ * drawing code works in court coordinates at any ratio and display size.
+ */
+export class CanvasScaler {
+  private canvas: HTMLCanvasElement;
+  private canvasCtx: CanvasRenderingContext2D;
+  // Size of the canvas in court coordinates.
+  private size: Dimensions;
+  // CSS px per court unit, e.g. above 1 when the court is expanded.
+  private displayScale: number = 1;
+  // Backing store pixels per court unit. Each backing store dimension is
+  // rounded to whole pixels, so the two can differ slightly.
+  private scaleX: number = 1;
+  private scaleY: number = 1;
+  // Pixel ratio a change listener is waiting on.
+  private watchedPixelRatio: number | null = null;
+
+  constructor(
+      canvas: HTMLCanvasElement, canvasCtx: CanvasRenderingContext2D,
+      size: Dimensions) {
+    this.canvas = canvas;
+    this.canvasCtx = canvasCtx;
+    this.size = {...size};
+    this.update();
+  }
+
+  /**
+   * Resize the canvas.
+   * @param size Court size, which drawing coordinates are relative to.
+   * @param displayScale CSS px per court unit.
+   */
+  setSize(size: Dimensions, displayScale: number = 1) {
+    this.size = {...size};
+    this.displayScale = displayScale;
+    this.update();
+  }
+
+  /**
+   * Replace the context's transform with the court mapping. Called at the
+   * start of every frame, so no transform can build up across frames.
+   */
+  applyTransform() {
+    this.canvasCtx.setTransform(this.scaleX, 0, 0, this.scaleY, 0, 0);
+  }
+
+  private update() {
+    const pixelRatio = window.devicePixelRatio || 1;
+    const cssWidth = this.size.width * this.displayScale;
+    const cssHeight = this.size.height * this.displayScale;
+    const width = Math.max(1, Math.round(cssWidth * pixelRatio));
+    const height = Math.max(1, Math.round(cssHeight * pixelRatio));
+
+    // Setting the backing store size clears the canvas, so only do it when
+    // it changes.
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+    }
+    this.canvas.style.width = cssWidth + 'px';
+    this.canvas.style.height = cssHeight + 'px';
+
+    this.scaleX = width / this.size.width;
+    this.scaleY = height / this.size.height;
+    this.applyTransform();
+    this.watchPixelRatio(pixelRatio);
+  }
+
+  /**
+   * Update the backing store when the pixel ratio changes, e.g. when the
+   * window moves to another monitor or the page is zoomed. The query only
+   * matches the current ratio, so a new one is set up after each change.
+   */
+  private watchPixelRatio(pixelRatio: number) {
+    if (!window.matchMedia || pixelRatio === this.watchedPixelRatio) {
+      return;
+    }
+    this.watchedPixelRatio = pixelRatio;
+    window.matchMedia(`(resolution: ${pixelRatio}dppx)`)
+        .addEventListener('change', () => this.update(), {once: true});
+  }
+}
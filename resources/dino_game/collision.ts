@@ -0,0 +1,73 @@
+// Copyright 2025 The Chromium Authors
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import type {CollisionBox} from './offline_sprite_definitions.js';
+
+/**
+ * Time and surface of impact found by `sweepBox`.
+ */
+export interface SweepHit {
+  // Fraction of the movement (0-1) at which the boxes first touch.
+  time: number;
+  // Normal of the target face that was hit, pointing out of the target.
+  // Exactly one of normalX / normalY is non-zero.
+  normalX: number;
+  normalY: number;
+}
+
+/**
+ * Find the axis interval during which the moving box overlaps the target,
+ * in fractions of the movement.
+ * @return [entry, exit], or null if the box never overlaps on this axis.
+ */
+function sweepAxis(
+    position: number, delta: number, min: number, max: number):
+    [number, number]|null {
+  if (delta === 0) {
+    return position > min && position < max ? [-Infinity, Infinity] : null;
+  }
+  const t1 = (min - position) / delta;
+  const t2 = (max - position) / delta;
+  return [Math.min(t1, t2), Math.max(t1, t2)];
+}
+
+/**
+ * Sweep a box moving by (dx, dy) against a static target box.
+ *
+ * The target is expanded by the size of the moving box, which reduces the
+ * test to the box's origin travelling along a segment against a rectangle.
+ * Boxes that merely touch, or that already overlap while moving away from
+ * the face they are in, are not reported.
+ * @return The first impact within the movement, or null.
+ */
+export function sweepBox(
+    box: CollisionBox, dx: number, dy: number,
+    target: CollisionBox): SweepHit|null {
+  const xInterval = sweepAxis(
+      box.x, dx, target.x - box.width, target.x + target.width);
+  const yInterval = sweepAxis(
+      box.y, dy, target.y - box.height, target.y + target.height);
+  if (!xInterval || !yInterval) {
+    return null;
+  }
+
+  const entry = Math.max(xInterval[0], yInterval[0]);
+  const exit = Math.min(xInterval[1], yInterval[1]);
+  if (entry >= exit || entry > 1 || exit <= 0) {
+    return null;
+  }
+
+  // The axis entered last is the face that was hit.
+  const hitX = xInterval[0] > yInterval[0];
+  const normalX = hitX ? (dx > 0 ? -1 : 1) : 0;
+  const normalY = hitX ? 0 : (dy > 0 ? -1 : 1);
+
+  if (entry < 0 && hitX && dx * normalX >= 0) {
+    // Already inside and moving away from the face, e.g. the target moved
+    // into the box.
+    return null;
+  }
+
+  return {time: Math.max(0, entry), normalX, normalY};
+}
@@ -23,15 +23,48 @@ export const DEFAULT_DIMENSIONS: Dimensions = {
   height: 150,
 };
 
+// Pong court in the expanded view, which is scaled up to fill the screen.
+export const EXPANDED_DIMENSIONS: Dimensions = {
+  width: 600,
+  height: 300,
+};
+
 // Pong game configuration.
 export const PONG_CONFIG = {
   PADDLE_WIDTH: 10,
   PADDLE_HEIGHT: 40,
   PADDLE_SPEED: 5,
   PADDLE_MARGIN: 20,  // Distance from edge of canvas
+  // Paddle momentum, when turned on
+  PADDLE_ACCELERATION: 0.8,  // Speed gained per tick at full input
+  PADDLE_MAX_SPEED_SCALE: 1.2,  // Top speed, as a multiple of PADDLE_SPEED
+  PADDLE_FRICTION: 0.8,  // Fraction of speed kept each tick without input
+  PADDLE_WALL_BOUNCE: 0.4,  // Fraction of speed kept bouncing off a wall
   BALL_SIZE: 8,
+  LARGE_BALL_SIZE: 14,  // Easier to see, chosen by the player
   BALL_SPEED: 4,
+  MAX_BALL_SPEED_SCALE: 1.5,  // Fastest ball, as a multiple of BALL_SPEED
+  // Spin from a moving paddle, in radians of heading change per tick
+  SPIN_PER_PADDLE_SPEED: 0.002,  // Per px per tick of paddle movement
+  MAX_SPIN: 0.012,
+  MIN_SPIN: 0.0005,  // Spin below this stops
+  SPIN_DECAY: 0.985,  // Fraction of spin kept each tick
   WINNING_SCORE: 11,
-  AI_REACTION_SPEED: 0.85,  // AI follows ball with slight delay (0-1)
+  START_DELAY: 500,  // Delay after starting a match before ball launches
   SCORE_DELAY: 1000,  // Delay after scoring before ball launches
+  // Distance from the player's paddle at which the screen reader mode warns
+  // that the ball is approaching.
+  AUDIO_CUE_PROXIMITY: 150,
+  // Power-ups
+  POWER_UP_SIZE: 14,
+  POWER_UP_SPAWN_DELAY: 5000,  // Time in play before an item appears
+  POWER_UP_DURATION: 8000,  // How long timed effects last
+  POWER_UP_GROW_SCALE: 1.5,
+  POWER_UP_SHRINK_SCALE: 0.6,
+  POWER_UP_SLOW_SCALE: 0.6,
+  MULTIBALL_EXTRA_BALLS: 2,
+  SHIELD_WIDTH: 4,
+  // Chaos mode
+  CHAOS_HITS_PER_BALL: 4,  // Paddle hits between added balls
+  CHAOS_MAX_BALLS: 6,
 };
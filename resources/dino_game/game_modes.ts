@@ -0,0 +1,85 @@
+// Copyright 2025 The Chromium Authors
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import {loadSetting, saveSetting} from './pong_settings.js';
+import type {PongStringId} from './pong_strings.js';
+import {MatchMode} from './simulation.js';
+
+/**
+ * Game modes offered on the start screen, in the order they are cycled.
+ */
+export enum GameModePreset {
+  CLASSIC,
+  TIME_ATTACK_60,
+  TIME_ATTACK_120,
+  SURVIVAL_WALL,
+  SURVIVAL_CPU,
+}
+
+export interface GameModePresetInfo {
+  // Name shown in the menu.
+  labelId: PongStringId;
+  mode: MatchMode;
+  // Length of a time attack match in ms, 0 for untimed modes.
+  timeLimit: number;
+  // Setting the mode's best score is saved under, null for modes without
+  // one. Time attack saves the player's most points against the CPU, and
+  // survival the most returns.
+  bestScoreSetting: string | null;
+}
+
+export const GAME_MODE_PRESETS: Record<GameModePreset, GameModePresetInfo> = {
+  [GameModePreset.CLASSIC]: {
+    labelId: 'pongModeClassic',
+    mode: MatchMode.STANDARD,
+    timeLimit: 0,
+    bestScoreSetting: null,
+  },
+  [GameModePreset.TIME_ATTACK_60]: {
+    labelId: 'pongModeTimeAttack60',
+    mode: MatchMode.TIME_ATTACK,
+    timeLimit: 60000,
+    bestScoreSetting: 'best-time-attack-60',
+  },
+  [GameModePreset.TIME_ATTACK_120]: {
+    labelId: 'pongModeTimeAttack120',
+    mode: MatchMode.TIME_ATTACK,
+    timeLimit: 120000,
+    bestScoreSetting: 'best-time-attack-120',
+  },
+  [GameModePreset.SURVIVAL_WALL]: {
+    labelId: 'pongModeSurvivalWall',
+    mode: MatchMode.SURVIVAL_WALL,
+    timeLimit: 0,
+    bestScoreSetting: 'best-survival-wall',
+  },
+  [GameModePreset.SURVIVAL_CPU]: {
+    labelId: 'pongModeSurvivalCpu',
+    mode: MatchMode.SURVIVAL_AI,
+    timeLimit: 0,
+    bestScoreSetting: 'best-survival-cpu',
+  },
+};
+
+/**
+ * Get the best score saved for a mode, 0 if it has none yet.
+ */
+export function loadBestScore(preset: GameModePreset): number {
+  const setting = GAME_MODE_PRESETS[preset].bestScoreSetting;
+  const saved = setting ? Number(loadSetting(setting)) : 0;
+  return Number.isFinite(saved) ? saved : 0;
+}
+
+/**
+ * Save a mode's score if it beats the best.
+ * @return Whether the score is a new best.
+ */
+export function saveBestScore(preset: GameModePreset, score: number): boolean {
+  const setting = GAME_MODE_PRESETS[preset].bestScoreSetting;
+  if (!setting || score <= loadBestScore(preset)) {
+    return false;
+  }
+  saveSetting(setting, String(score));
+  return true;
+}
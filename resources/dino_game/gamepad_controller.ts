@@ -0,0 +1,155 @@
+// Copyright 2025 The Chromium Authors
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import type {PaddleController} from './paddle_controller.js';
+import {IDLE_INPUT} from './simulation.js';
+import type {PaddleInput} from './simulation.js';
+
+/**
+ * Button indices in the standard gamepad mapping.
+ */
+export enum GamepadButton {
+  A = 0,
+  START = 9,
+  DPAD_UP = 12,
+  DPAD_DOWN = 13,
+}
+
+// Index of the left stick's vertical axis in the standard mapping.
+const LEFT_STICK_Y_AXIS: number = 1;
+
+// Stick deflection ignored around the center, to absorb drift.
+const STICK_DEAD_ZONE: number = 0.2;
+
+// Number of players that can use a gamepad, one per paddle.
+const MAX_PLAYERS: number = 2;
+
+/**
+ * Tracks connected gamepads and assigns them to player slots in connection
+ * order. Slot 0 drives the left paddle, slot 1 the right.
+ */
+export class GamepadInput {
+  // Gamepad index assigned to each player slot.
+  private slots: Array<number|null> = new Array(MAX_PLAYERS).fill(null);
+  private pads: Array<Gamepad|null> = new Array(MAX_PLAYERS).fill(null);
+  // Buttons held at the previous poll, to detect new presses.
+  private previousButtons: boolean[][] = [];
+  private currentButtons: boolean[][] = [];
+
+  static isSupported(): boolean {
+    return typeof navigator.getGamepads === 'function';
+  }
+
+  /**
+   * Assign a newly connected gamepad to the first free slot.
+   */
+  connect(gamepad: Gamepad) {
+    if (this.slots.includes(gamepad.index)) {
+      return;
+    }
+    const freeSlot = this.slots.indexOf(null);
+    if (freeSlot !== -1) {
+      this.slots[freeSlot] = gamepad.index;
+    }
+  }
+
+  /**
+   * Release the slot of a disconnected gamepad.
+   * @return The slot the gamepad was assigned to, or -1.
+   */
+  disconnect(gamepad: Gamepad): number {
+    const slot = this.slots.indexOf(gamepad.index);
+    if (slot !== -1) {
+      this.slots[slot] = null;
+      this.pads[slot] = null;
+      this.currentButtons[slot] = [];
+    }
+    return slot;
+  }
+
+  /**
+   * Take a snapshot of all gamepads. Call once per frame.
+   */
+  poll() {
+    if (!GamepadInput.isSupported()) {
+      return;
+    }
+
+    const gamepads = navigator.getGamepads();
+    // Pads connected before the page loaded are only reported by polling.
+    for (const gamepad of gamepads) {
+      if (gamepad && gamepad.connected) {
+        this.connect(gamepad);
+      }
+    }
+
+    this.previousButtons = this.currentButtons;
+    this.currentButtons = [];
+    this.slots.forEach((index, slot) => {
+      const gamepad = index !== null ? gamepads[index] : null;
+      this.pads[slot] = gamepad && gamepad.connected ? gamepad : null;
+      this.currentButtons[slot] =
+          this.pads[slot]?.buttons.map(button => button.pressed) ?? [];
+    });
+  }
+
+  /**
+   * Whether a button was pressed since the previous poll.
+   */
+  wasButtonPressed(slot: number, button: GamepadButton): boolean {
+    return !!this.currentButtons[slot]?.[button] &&
+        !this.previousButtons[slot]?.[button];
+  }
+
+  /**
+   * Whether a button was newly pressed on any gamepad.
+   */
+  wasButtonPressedOnAny(button: GamepadButton): boolean {
+    return this.slots.some((_, slot) => this.wasButtonPressed(slot, button));
+  }
+
+  /**
+   * Paddle input from the gamepad in a slot. The stick moves the paddle at a
+   * speed proportional to its deflection, the d-pad at full speed.
+   */
+  getInput(slot: number): PaddleInput {
+    const gamepad = this.pads[slot];
+    if (!gamepad) {
+      return IDLE_INPUT;
+    }
+
+    if (gamepad.buttons[GamepadButton.DPAD_UP]?.pressed) {
+      return {axis: -1, targetY: null};
+    }
+    if (gamepad.buttons[GamepadButton.DPAD_DOWN]?.pressed) {
+      return {axis: 1, targetY: null};
+    }
+
+    const stick = gamepad.axes[LEFT_STICK_Y_AXIS] ?? 0;
+    if (Math.abs(stick) < STICK_DEAD_ZONE) {
+      return IDLE_INPUT;
+    }
+    // Rescale so movement starts from zero at the edge of the dead zone.
+    const axis = Math.sign(stick) * (Math.abs(stick) - STICK_DEAD_ZONE) /
+        (1 - STICK_DEAD_ZONE);
+    return {axis, targetY: null};
+  }
+}
+
+/**
+ * Drives a paddle from the gamepad assigned to a player slot.
+ */
+export class GamepadController implements PaddleController {
+  private gamepads: GamepadInput;
+  private slot: number;
+
+  constructor(gamepads: GamepadInput, slot: number) {
+    this.gamepads = gamepads;
+    this.slot = slot;
+  }
+
+  getInput(): PaddleInput {
+    return this.gamepads.getInput(this.slot);
+  }
+}
@@ -8,6 +8,20 @@ export interface GeneratedSoundFxProvider {
   getGeneratedSoundFx(): GeneratedSoundFx|null;
 }
 
+/**
+ * A tone that keeps playing until stopped, started by
+ * `GeneratedSoundFx.startTone`.
+ */
+export interface ContinuousTone {
+  setFrequency(frequency: number): void;
+  setPan(pan: number): void;
+  stop(): void;
+}
+
+// Time constant for gliding a continuous tone to a new pitch or position,
+// in seconds. Avoids clicks from abrupt changes.
+const TONE_GLIDE_TIME: number = 0.03;
+
 /**
  * Generated sound FX class for audio cues.
  */
@@ -22,12 +36,8 @@ export class GeneratedSoundFx {
       };
       this.context.resume();
     }
-    this.panner = this.context.createStereoPanner ?
-        this.context.createStereoPanner() :
-        null;
   }
   private context: AudioContext;
-  private panner: StereoPannerNode|null = null;
   private bgSoundIntervalId: number|null = null;
 
   stopAll() {
@@ -50,16 +60,9 @@ export class GeneratedSoundFx {
     volume.gain.value = 0.1;
 
     // Set up node routing
-    if (this.panner) {
-      this.panner.pan.value = pan;
-      osc1.connect(volume).connect(this.panner);
-      osc2.connect(volume).connect(this.panner);
-      this.panner.connect(this.context.destination);
-    } else {
-      osc1.connect(volume);
-      osc2.connect(volume);
-      volume.connect(this.context.destination);
-    }
+    osc1.connect(volume);
+    osc2.connect(volume);
+    volume.connect(this.createOutput(pan));
 
     // Detune oscillators for chorus effect
     osc1.frequency.value = frequency + 1;
@@ -77,6 +80,87 @@ export class GeneratedSoundFx {
     osc2.stop(startTime + duration);
   }
 
+  /**
+   * Resume audio after a user gesture. Autoplay rules start the context
+   * suspended until the page has been interacted with.
+   */
+  resume() {
+    if (this.context.state === 'suspended') {
+      this.context.resume();
+    }
+  }
+
+  /**
+   * Decode an audio file, e.g. one of the bundled mp3s.
+   */
+  decodeAudio(data: ArrayBuffer): Promise<AudioBuffer> {
+    return this.context.decodeAudioData(data);
+  }
+
+  /**
+   * Play a decoded audio buffer.
+   * @param playbackRate Speed multiplier, which also shifts the pitch.
+   */
+  playBuffer(buffer: AudioBuffer, pan: number = 0, playbackRate: number = 1) {
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = playbackRate;
+    source.connect(this.createOutput(pan));
+    source.start(0);
+  }
+
+  /**
+   * Create the node a sound plays through. Each sound gets its own panner, so
+   * sounds that overlap keep their own positions.
+   */
+  private createOutput(pan: number): AudioNode {
+    if (!this.context.createStereoPanner) {
+      return this.context.destination;
+    }
+    const panner = this.context.createStereoPanner();
+    panner.pan.value = pan;
+    panner.connect(this.context.destination);
+    return panner;
+  }
+
+  /**
+   * Start a continuous tone, e.g. to follow a moving object. The tone has
+   * its own panner so other sounds don't move it.
+   */
+  startTone(frequency: number, vol: number = 0.05): ContinuousTone {
+    const context = this.context;
+    const osc = context.createOscillator();
+    const volume = context.createGain();
+    const panner =
+        context.createStereoPanner ? context.createStereoPanner() : null;
+
+    osc.type = 'sine';
+    osc.frequency.value = frequency;
+    volume.gain.value = vol;
+    osc.connect(volume);
+    if (panner) {
+      volume.connect(panner).connect(context.destination);
+    } else {
+      volume.connect(context.destination);
+    }
+    osc.start();
+
+    return {
+      setFrequency(frequency: number) {
+        osc.frequency.setTargetAtTime(
+            frequency, context.currentTime, TONE_GLIDE_TIME);
+      },
+      setPan(pan: number) {
+        panner?.pan.setTargetAtTime(pan, context.currentTime, TONE_GLIDE_TIME);
+      },
+      stop() {
+        // Fade out rather than cutting off with a click.
+        volume.gain.setTargetAtTime(0, context.currentTime, TONE_GLIDE_TIME);
+        osc.stop(context.currentTime + TONE_GLIDE_TIME * 5);
+      },
+    };
+  }
+
   background() {
     const now = this.context.currentTime;
     this.playNote(493.883, now, 0.116);
@@ -114,4 +198,68 @@ export class GeneratedSoundFx {
     this.playNote(659.25, now, 0.116, 0.3, -0.6);
     this.playNote(880, now + 0.116, 0.232, 0.3, -0.6);
   }
+
+  /**
+   * Short blip for the ball bouncing off a wall.
+   * @param pitch Frequency multiplier, e.g. rising with the ball's speed.
+   */
+  wallBounce(pan: number = 0, pitch: number = 1) {
+    this.playNote(220 * pitch, this.context.currentTime, 0.06, 0.05, pan);
+  }
+
+  /**
+   * High blip warning that the ball is about to reach the player's paddle.
+   */
+  proximityCue(pan: number = 0) {
+    this.playNote(1318.51, this.context.currentTime, 0.08, 0.05, pan);
+  }
+
+  /**
+   * Soft chime for a power-up appearing on the court.
+   */
+  powerUpSpawn() {
+    const now = this.context.currentTime;
+    this.playNote(987.77, now, 0.08, 0.05);
+    this.playNote(1318.51, now + 0.08, 0.12, 0.05);
+  }
+
+  /**
+   * Rising notes for a power-up being collected.
+   */
+  powerUpCollect(pan: number = 0) {
+    const now = this.context.currentTime;
+    this.playNote(783.99, now, 0.08, 0.05, pan);
+    this.playNote(1046.50, now + 0.08, 0.08, 0.05, pan);
+    this.playNote(1567.98, now + 0.16, 0.16, 0.05, pan);
+  }
+
+  /**
+   * Falling blip for a power-up effect wearing off.
+   */
+  powerDown() {
+    const now = this.context.currentTime;
+    this.playNote(659.25, now, 0.08, 0.05);
+    this.playNote(440, now + 0.08, 0.12, 0.05);
+  }
+
+  /**
+   * Ascending arpeggio for winning a match.
+   */
+  win() {
+    const now = this.context.currentTime;
+    this.playNote(523.25, now, 0.116);
+    this.playNote(659.25, now + 0.116, 0.116);
+    this.playNote(783.99, now + 0.232, 0.116);
+    this.playNote(1046.50, now + 0.348, 0.348);
+  }
+
+  /**
+   * Descending notes for losing a match.
+   */
+  lose() {
+    const now = this.context.currentTime;
+    this.playNote(392.00, now, 0.174);
+    this.playNote(329.63, now + 0.174, 0.174);
+    this.playNote(261.63, now + 0.348, 0.348);
+  }
 }
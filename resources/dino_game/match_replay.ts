@@ -0,0 +1,272 @@
+// Copyright 2025 The Chromium Authors
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import type {Dimensions} from './dimensions.js';
+import {createMatchState, resizeCourt, startMatch, step} from './simulation.js';
+import type {MatchEvent, MatchOptions, MatchState, PaddleInput, Side, TickInputs} from './simulation.js';
+
+const MATCH_LOG_VERSION: number = 2;
+
+/**
+ * A run of identical ticks: [tick count, left axis, left target Y,
+ * right axis, right target Y].
+ */
+export type InputRun = [number, number, number|null, number, number|null];
+
+/**
+ * Compact record of a match. Replaying `inputs` against a match created from
+ * `options` reproduces it exactly.
+ */
+export interface MatchLog {
+  version: number;
+  // Seed, court size and CPU difficulty the match was created with.
+  options: MatchOptions;
+  // Run-length encoded player input, one entry per tick.
+  inputs: InputRun[];
+  // Court resizes, as [tick, court], applied before the tick is simulated.
+  resizes: Array<[number, Dimensions]>;
+  // Points scored, as [tick, scorer], to detect replays that diverge.
+  scores: Array<[number, Side]>;
+  ticks: number;
+}
+
+function isSameInput(a: PaddleInput, axis: number, targetY: number|null) {
+  return a.axis === axis && a.targetY === targetY;
+}
+
+/**
+ * Builds a `MatchLog` from the inputs and events of each tick.
+ */
+export class MatchRecorder {
+  private log: MatchLog;
+
+  constructor(options: MatchOptions) {
+    this.log = {
+      version: MATCH_LOG_VERSION,
+      options: {...options, court: {...options.court}},
+      inputs: [],
+      resizes: [],
+      scores: [],
+      ticks: 0,
+    };
+  }
+
+  /**
+   * Record one tick, in the order the ticks were simulated.
+   */
+  record(inputs: TickInputs, events: MatchEvent[]) {
+    const lastRun = this.log.inputs[this.log.inputs.length - 1];
+    if (lastRun && isSameInput(inputs.left, lastRun[1], lastRun[2]) &&
+        isSameInput(inputs.right, lastRun[3], lastRun[4])) {
+      lastRun[0]++;
+    } else {
+      this.log.inputs.push([
+        1,
+        inputs.left.axis,
+        inputs.left.targetY,
+        inputs.right.axis,
+        inputs.right.targetY,
+      ]);
+    }
+
+    for (const event of events) {
+      if (event.type === 'score') {
+        this.log.scores.push([this.log.ticks, event.scorer]);
+      }
+    }
+    this.log.ticks++;
+  }
+
+  /**
+   * Record the court being resized before the next tick.
+   */
+  recordResize(court: Dimensions) {
+    this.log.resizes.push([this.log.ticks, {...court}]);
+  }
+
+  /**
+   * Continue recording a match that was played back from `log`, e.g. one
+   * resumed after the page reloaded.
+   */
+  static fromLog(log: MatchLog): MatchRecorder {
+    const recorder = new MatchRecorder(log.options);
+    recorder.log = structuredClone(log);
+    return recorder;
+  }
+
+  getLog(): MatchLog {
+    return this.log;
+  }
+}
+
+/**
+ * Whether a log was recorded in the format this version plays back, e.g.
+ * before loading one saved by an earlier version.
+ */
+export function isSupportedMatchLog(log: MatchLog): boolean {
+  return log.version === MATCH_LOG_VERSION;
+}
+
+/**
+ * Write a log as text, e.g. to attach to a bug report.
+ */
+export function serializeMatchLog(log: MatchLog): string {
+  return JSON.stringify(log);
+}
+
+/**
+ * Read a log written by `serializeMatchLog`, null if the text is not a log
+ * this version plays back.
+ */
+export function parseMatchLog(text: string): MatchLog|null {
+  try {
+    const log = JSON.parse(text) as MatchLog;
+    return isSupportedMatchLog(log) ? log : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Plays back a `MatchLog`, with support for seeking to any tick.
+ */
+export class MatchReplay {
+  private log: MatchLog;
+  // First tick covered by each input run.
+  private runStarts: number[] = [];
+  private state: MatchState;
+  // Last tick whose resizes were applied, so none is applied twice.
+  private resizedTick: number = -1;
+  // Whether a point was scored that the recording does not have, e.g. because
+  // the simulation changed since it was recorded.
+  private diverged: boolean = false;
+
+  constructor(log: MatchLog) {
+    this.log = log;
+    let tick = 0;
+    for (const run of log.inputs) {
+      this.runStarts.push(tick);
+      tick += run[0];
+    }
+    this.state = this.createState();
+  }
+
+  private createState(): MatchState {
+    const state = createMatchState(this.log.options);
+    startMatch(state);
+    return state;
+  }
+
+  getState(): MatchState {
+    return this.state;
+  }
+
+  /**
+   * Current tick, i.e. the number of ticks played back so far.
+   */
+  getTick(): number {
+    return this.state.tick;
+  }
+
+  getLength(): number {
+    return this.log.ticks;
+  }
+
+  isFinished(): boolean {
+    return this.state.tick >= this.log.ticks;
+  }
+
+  /**
+   * Whether the ticks played back so far have diverged from the recording.
+   */
+  hasDiverged(): boolean {
+    return this.diverged;
+  }
+
+  /**
+   * Inputs recorded for a tick.
+   */
+  private getInputs(tick: number): TickInputs {
+    // Binary search for the run containing the tick.
+    let low = 0;
+    let high = this.runStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (this.runStarts[mid]! <= tick) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    const run = this.log.inputs[low]!;
+    return {
+      left: {axis: run[1], targetY: run[2]},
+      right: {axis: run[3], targetY: run[4]},
+    };
+  }
+
+  /**
+   * Resize the court as it was before a tick was recorded.
+   */
+  private applyResizes(tick: number) {
+    if (tick === this.resizedTick) {
+      return;
+    }
+    this.resizedTick = tick;
+    for (const [resizeTick, court] of this.log.resizes) {
+      if (resizeTick === tick) {
+        resizeCourt(this.state, court);
+      }
+    }
+  }
+
+  /**
+   * Play back the next tick.
+   * @return Events of the tick, empty once the replay has finished.
+   */
+  advance(): MatchEvent[] {
+    if (this.isFinished()) {
+      return [];
+    }
+    return this.playTick();
+  }
+
+  /**
+   * Play back the next tick, noting whether it scored a point the recording
+   * does not have.
+   */
+  private playTick(): MatchEvent[] {
+    const tick = this.state.tick;
+    this.applyResizes(tick);
+    const events = step(this.state, this.getInputs(tick));
+
+    for (const event of events) {
+      if (event.type === 'score' &&
+          !this.log.scores.some(
+              ([scoreTick, scorer]) =>
+                  scoreTick === tick && scorer === event.scorer)) {
+        this.diverged = true;
+      }
+    }
+    return events;
+  }
+
+  /**
+   * Jump to a tick by replaying the match from the start. Resizes recorded
+   * before the tick are applied, so the court matches the recording.
+   */
+  seek(tick: number) {
+    const target = Math.max(0, Math.min(this.log.ticks, Math.round(tick)));
+    if (target < this.state.tick) {
+      this.state = this.createState();
+      this.resizedTick = -1;
+      this.diverged = false;
+    }
+    while (this.state.tick < target) {
+      this.playTick();
+    }
+    this.applyResizes(target);
+  }
+}
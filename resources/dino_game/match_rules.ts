@@ -0,0 +1,158 @@
+// Copyright 2025 The Chromium Authors
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import {PONG_CONFIG} from './constants.js';
+import type {PongStringId} from './pong_strings.js';
+import type {Side} from './simulation.js';
+
+/**
+ * How a match is scored.
+ */
+export interface MatchRules {
+  // Points needed to win a set.
+  targetScore: number;
+  // Whether a set must be won by two clear points, serving alternately from
+  // deuce.
+  winByTwo: boolean;
+  // Points served in a row by each side before the serve passes over.
+  servesPerTurn: number;
+  // Number of sets. The first side to win a majority takes the match.
+  bestOf: number;
+}
+
+/**
+ * Rule sets offered on the start screen, in the order they are cycled.
+ */
+export enum MatchRulesPreset {
+  ELEVEN_POINTS,
+  TWENTY_ONE_POINTS,
+  BEST_OF_THREE,
+  BEST_OF_FIVE,
+}
+
+export interface MatchRulesPresetInfo {
+  // Name shown in the menu.
+  labelId: PongStringId;
+  rules: MatchRules;
+}
+
+export const MATCH_RULES_PRESETS:
+    Record<MatchRulesPreset, MatchRulesPresetInfo> = {
+  [MatchRulesPreset.ELEVEN_POINTS]: {
+    labelId: 'pongRulesElevenPoints',
+    rules: {
+      targetScore: PONG_CONFIG.WINNING_SCORE,
+      winByTwo: true,
+      servesPerTurn: 2,
+      bestOf: 1,
+    },
+  },
+  [MatchRulesPreset.TWENTY_ONE_POINTS]: {
+    labelId: 'pongRulesTwentyOnePoints',
+    rules: {targetScore: 21, winByTwo: true, servesPerTurn: 5, bestOf: 1},
+  },
+  [MatchRulesPreset.BEST_OF_THREE]: {
+    labelId: 'pongRulesBestOfThree',
+    rules: {
+      targetScore: PONG_CONFIG.WINNING_SCORE,
+      winByTwo: true,
+      servesPerTurn: 2,
+      bestOf: 3,
+    },
+  },
+  [MatchRulesPreset.BEST_OF_FIVE]: {
+    labelId: 'pongRulesBestOfFive',
+    rules: {
+      targetScore: PONG_CONFIG.WINNING_SCORE,
+      winByTwo: true,
+      servesPerTurn: 2,
+      bestOf: 5,
+    },
+  },
+};
+
+export const DEFAULT_MATCH_RULES: MatchRules =
+    MATCH_RULES_PRESETS[MatchRulesPreset.ELEVEN_POINTS].rules;
+
+/**
+ * What the next point could decide.
+ */
+export enum PointType {
+  NORMAL,
+  SET_POINT,
+  MATCH_POINT,
+}
+
+function getOpponent(side: Side): Side {
+  return side === 'left' ? 'right' : 'left';
+}
+
+/**
+ * Sets a side needs to win the match.
+ */
+export function getSetsToWin(rules: MatchRules): number {
+  return Math.floor(rules.bestOf / 2) + 1;
+}
+
+/**
+ * Whether `side` has won the set with these scores.
+ */
+export function isSetWon(
+    rules: MatchRules, scores: Record<Side, number>, side: Side): boolean {
+  const lead = scores[side] - scores[getOpponent(side)];
+  return scores[side] >= rules.targetScore &&
+      (rules.winByTwo ? lead >= 2 : lead > 0);
+}
+
+/**
+ * Whether the set is at deuce or beyond, where the serve alternates every
+ * point.
+ */
+function isDeuce(rules: MatchRules, scores: Record<Side, number>): boolean {
+  return rules.winByTwo && scores.left >= rules.targetScore - 1 &&
+      scores.right >= rules.targetScore - 1;
+}
+
+/**
+ * Side serving the next point of a set.
+ * @param firstServer Side that served the set's first point.
+ */
+export function getServer(
+    rules: MatchRules, scores: Record<Side, number>, firstServer: Side): Side {
+  const played = scores.left + scores.right;
+  let turn = Math.floor(played / rules.servesPerTurn);
+  if (isDeuce(rules, scores)) {
+    const deucePoint = (rules.targetScore - 1) * 2;
+    turn = Math.floor(deucePoint / rules.servesPerTurn) + played - deucePoint;
+  }
+  return turn % 2 === 0 ? firstServer : getOpponent(firstServer);
+}
+
+/**
+ * Side that serves first in a set. The first serve alternates between sets.
+ * @param setsPlayed Sets completed before this one.
+ * @param matchFirstServer Side that served first in the match.
+ */
+export function getSetFirstServer(
+    setsPlayed: number, matchFirstServer: Side): Side {
+  return setsPlayed % 2 === 0 ? matchFirstServer :
+                                getOpponent(matchFirstServer);
+}
+
+/**
+ * Whether `side` would take the set, or the match, by winning the next point.
+ */
+export function getPointType(
+    rules: MatchRules, scores: Record<Side, number>, sets: Record<Side, number>,
+    side: Side): PointType {
+  if (isSetWon(rules, scores, 'left') || isSetWon(rules, scores, 'right')) {
+    return PointType.NORMAL;
+  }
+  const nextScores = {...scores, [side]: scores[side] + 1};
+  if (!isSetWon(rules, nextScores, side)) {
+    return PointType.NORMAL;
+  }
+  return sets[side] + 1 >= getSetsToWin(rules) ? PointType.MATCH_POINT :
+                                                 PointType.SET_POINT;
+}
@@ -0,0 +1,145 @@
+// Copyright 2025 The Chromium Authors
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import type {Ball} from './ball.js';
+import {loadSetting, saveSetting} from './pong_settings.js';
+import type {MatchEvent, Side} from './simulation.js';
+
+const LIFETIME_STATS_SETTING: string = 'lifetime-stats';
+
+/**
+ * Statistics of a match, collected by the simulation as it is played.
+ */
+export interface MatchStats {
+  // Ticks from the start of the match to its end.
+  ticks: number;
+  // Paddle hits by each side. In survival against a wall, returns off the
+  // wall are not hits.
+  hits: Record<Side, number>;
+  // Hits off the edge of a paddle, which send the ball away at the steepest
+  // angles.
+  edgeHits: Record<Side, number>;
+  // Most paddle hits in one rally. In multiball, hits are counted per ball,
+  // so balls in play at once don't add up to one long rally.
+  longestRally: number;
+  // Paddle hits on each ball in the rally being played.
+  rallyHits: Map<Ball, number>;
+  // Speed of each ball in play, in px per tick, summed over every tick of
+  // play, and the number of speeds summed.
+  speedTotal: number;
+  speedSamples: number;
+  // Fastest a ball went, in px per tick.
+  maxSpeed: number;
+}
+
+/**
+ * Statistics of every match finished, saved across sessions.
+ */
+export interface LifetimeStats {
+  matches: number;
+  ticks: number;
+  hits: number;
+  edgeHits: number;
+  longestRally: number;
+  speedTotal: number;
+  speedSamples: number;
+  maxSpeed: number;
+}
+
+export function createMatchStats(): MatchStats {
+  return {
+    ticks: 0,
+    hits: {left: 0, right: 0},
+    edgeHits: {left: 0, right: 0},
+    longestRally: 0,
+    rallyHits: new Map(),
+    speedTotal: 0,
+    speedSamples: 0,
+    maxSpeed: 0,
+  };
+}
+
+/**
+ * Add a tick of the match to its stats.
+ * @param events Events of the tick.
+ * @param balls Balls in play after the tick.
+ */
+export function updateMatchStats(
+    stats: MatchStats, events: MatchEvent[], balls: Ball[]) {
+  stats.ticks++;
+  for (const event of events) {
+    if (event.type === 'serve') {
+      stats.rallyHits.clear();
+    } else if (event.type === 'paddle-hit') {
+      stats.hits[event.side]++;
+      if (event.edge) {
+        stats.edgeHits[event.side]++;
+      }
+      const rallyHits = (stats.rallyHits.get(event.ball) ?? 0) + 1;
+      stats.rallyHits.set(event.ball, rallyHits);
+      stats.longestRally = Math.max(stats.longestRally, rallyHits);
+    }
+  }
+  for (const ball of balls) {
+    if (ball.isMoving()) {
+      const speed = ball.getSpeed();
+      stats.speedTotal += speed;
+      stats.speedSamples++;
+      stats.maxSpeed = Math.max(stats.maxSpeed, speed);
+    }
+  }
+}
+
+/**
+ * Average speed of the balls in play, in px per tick.
+ */
+export function getAverageSpeed(stats: MatchStats|LifetimeStats): number {
+  return stats.speedSamples ? stats.speedTotal / stats.speedSamples : 0;
+}
+
+function createLifetimeStats(): LifetimeStats {
+  return {
+    matches: 0,
+    ticks: 0,
+    hits: 0,
+    edgeHits: 0,
+    longestRally: 0,
+    speedTotal: 0,
+    speedSamples: 0,
+    maxSpeed: 0,
+  };
+}
+
+/**
+ * Get the lifetime stats saved by previous sessions.
+ */
+export function loadLifetimeStats(): LifetimeStats {
+  const saved = loadSetting(LIFETIME_STATS_SETTING);
+  if (!saved) {
+    return createLifetimeStats();
+  }
+  try {
+    return {...createLifetimeStats(), ...JSON.parse(saved)};
+  } catch (e) {
+    return createLifetimeStats();
+  }
+}
+
+/**
+ * Add a finished match to the lifetime stats, and save them.
+ * @return The updated lifetime stats.
+ */
+export function addToLifetimeStats(stats: MatchStats): LifetimeStats {
+  const lifetime = loadLifetimeStats();
+  lifetime.matches++;
+  lifetime.ticks += stats.ticks;
+  lifetime.hits += stats.hits.left + stats.hits.right;
+  lifetime.edgeHits += stats.edgeHits.left + stats.edgeHits.right;
+  lifetime.longestRally = Math.max(lifetime.longestRally, stats.longestRally);
+  lifetime.speedTotal += stats.speedTotal;
+  lifetime.speedSamples += stats.speedSamples;
+  lifetime.maxSpeed = Math.max(lifetime.maxSpeed, stats.maxSpeed);
+  saveSetting(LIFETIME_STATS_SETTING, JSON.stringify(lifetime));
+  return lifetime;
+}
@@ -8,16 +8,74 @@
 import {assert} from 'chrome://resources/js/assert.js';
 import {loadTimeData} from 'chrome://resources/js/load_time_data.js';
 
-import {DEFAULT_DIMENSIONS, FPS, IS_HIDPI, IS_MOBILE, PONG_CONFIG} from './constants.js';
+import {DEFAULT_DIMENSIONS, EXPANDED_DIMENSIONS, FPS, IS_HIDPI, IS_MOBILE, IS_RTL} from './constants.js';
 import type {Dimensions} from './dimensions.js';
-import {Ball} from './ball.js';
-import {Paddle} from './paddle.js';
+import {AI_DIFFICULTY_PRESETS, AiDifficulty, selectTargetBall} from './ai_strategy.js';
+import {BallAudioCue} from './ball_audio_cue.js';
+import {CanvasScaler} from './canvas_scaler.js';
+import {GAME_MODE_PRESETS, GameModePreset, loadBestScore, saveBestScore} from './game_modes.js';
+import {MatchRecorder, MatchReplay, parseMatchLog, serializeMatchLog} from './match_replay.js';
+import {getPointType, MATCH_RULES_PRESETS, MatchRulesPreset, PointType} from './match_rules.js';
+import {addToLifetimeStats, getAverageSpeed, loadLifetimeStats} from './match_stats.js';
+import type {LifetimeStats, MatchStats} from './match_stats.js';
+import type {MatchLog} from './match_replay.js';
+import {canSaveMatch, clearSavedMatch, loadSavedMatch, saveMatch} from './saved_match.js';
+import type {SavedMatch} from './saved_match.js';
+import {GamepadButton, GamepadController, GamepadInput} from './gamepad_controller.js';
+import {CombinedController, KeyboardController} from './paddle_controller.js';
+import {MOMENTUM_PADDLE_PHYSICS} from './paddle.js';
+import {PointerController} from './pointer_controller.js';
+import type {PaddleController} from './paddle_controller.js';
+import {isStorageAvailable, loadSetting, saveSetting} from './pong_settings.js';
+import {PongSoundFx} from './pong_sound_fx.js';
+import {getPongString} from './pong_strings.js';
+import type {PongStringId} from './pong_strings.js';
+import {drawPowerUp, drawShield, PowerUpType} from './power_ups.js';
+import {createRenderTheme, watchRenderThemePreferences} from './render_theme.js';
+import type {RenderTheme} from './render_theme.js';
+import {addMatchResult, decodePongRecord, EMPTY_PONG_RECORD, encodePongRecord, isSamePongRecord, mergePongRecords} from './pong_record.js';
+import type {PongRecord} from './pong_record.js';
 import {ScoreDisplay} from './score_display.js';
+import type {MenuItem, StatsRow} from './score_display.js';
+import {createSeed} from './seeded_random.js';
+import {createMatchState, getShieldBounds, getSurvivalWallBounds, IDLE_INPUT, isSuddenDeath, isSurvivalMode, MatchMode, MatchPhase, MAX_FRAME_TIME, resizeCourt, startMatch, step, TICK_MS} from './simulation.js';
+import type {MatchEvent, MatchOptions, MatchState, Side, TickInputs} from './simulation.js';
 import {spriteDefinitionByType} from './offline_sprite_definitions.js';
 import {getTimeStamp} from './utils.js';
 
 const RESOURCE_POSTFIX: string = 'offline-resources-';
 
+const DIFFICULTY_SETTING: string = 'difficulty';
+const AUDIO_CUES_SETTING: string = 'audio-cues';
+const LARGE_BALL_SETTING: string = 'large-ball';
+const POWER_UPS_SETTING: string = 'power-ups';
+const CHAOS_SETTING: string = 'chaos';
+const RULES_SETTING: string = 'rules';
+const GAME_MODE_SETTING: string = 'mode';
+const INERTIA_SETTING: string = 'inertia';
+
+/**
+ * Names of the power-ups, announced when one is collected.
+ */
+const POWER_UP_NAMES: Record<PowerUpType, PongStringId> = {
+  [PowerUpType.BIG_PADDLE]: 'pongPowerUpBigPaddle',
+  [PowerUpType.SHRINK_OPPONENT]: 'pongPowerUpShrinkOpponent',
+  [PowerUpType.MULTIBALL]: 'pongPowerUpMultiball',
+  [PowerUpType.SLOW_BALL]: 'pongPowerUpSlowBall',
+  [PowerUpType.SHIELD]: 'pongPowerUpShield',
+};
+
+/**
+ * Replay playback speeds, cycled with the up / down keys.
+ */
+const REPLAY_SPEEDS: number[] = [0.25, 0.5, 1, 2, 4];
+
+// Distance in ms jumped by the left / right keys during a replay.
+const REPLAY_SEEK_MS: number = 2000;
+
+// Countdown in ms before play continues after unpausing.
+const RESUME_COUNTDOWN_MS: number = 3000;
+
 /**
  * Game states.
  */
@@ -26,6 +84,28 @@ enum GameState {
   PLAYING,    // Ball is in motion
   SCORED,     // Brief pause after scoring
   GAME_OVER,  // Game finished, showing winner
+  REPLAY,     // Playing back a recorded match
+  PAUSED,     // Match suspended, or counting down to resume
+}
+
+/**
+ * Who controls the right paddle.
+ */
+enum PlayMode {
+  ONE_PLAYER,   // Left paddle vs CPU
+  TWO_PLAYERS,  // Local two-player, W/S vs arrow keys
+}
+
+/**
+ * Result of a finished match, shown on the game over screen. Kept apart from
+ * the match, which menu keys replace with a new one.
+ */
+interface MatchResult {
+  winner: Side;
+  survival: boolean;
+  twoPlayer: boolean;
+  // Player's score, i.e. the returns made in survival.
+  playerScore: number;
 }
 
 /**
@@ -34,17 +114,38 @@ enum GameState {
 enum PongClasses {
   CANVAS = 'runner-canvas',
   CONTAINER = 'runner-container',
+  EXPANDED = 'expanded',
+  LIVE_REGION = 'pong-live-region',
 }
 
 /**
  * Key codes for input.
  */
 const KEY_CODES = {
+  LEFT: 37,
   UP: 38,
+  RIGHT: 39,
   DOWN: 40,
+  ESCAPE: 27,
   SPACE: 32,
+  A: 65,
+  C: 67,
   W: 87,
   S: 83,
+  T: 84,
+  ONE: 49,
+  TWO: 50,
+  D: 68,
+  F: 70,
+  G: 71,
+  I: 73,
+  L: 76,
+  M: 77,
+  N: 78,
+  P: 80,
+  R: 82,
+  U: 85,
+  V: 86,
 };
 
 let gameInstance: PongGame | null = null;
@@ -57,29 +158,95 @@ export class PongGame {
   private containerEl: HTMLElement | null = null;
   private canvas: HTMLCanvasElement | null = null;
   private canvasCtx: CanvasRenderingContext2D | null = null;
+  private canvasScaler: CanvasScaler | null = null;
   private imageSprite: HTMLImageElement | null = null;
 
-  private dimensions: Dimensions = DEFAULT_DIMENSIONS;
+  // Court size in CSS px, which is also the court's coordinate system. The
+  // canvas backing store is scaled from it for HiDPI displays.
+  private dimensions: Dimensions = {...DEFAULT_DIMENSIONS};
   private spriteDef = spriteDefinitionByType.original.ldpi;
 
   // Game entities
-  private playerPaddle: Paddle | null = null;
-  private aiPaddle: Paddle | null = null;
-  private ball: Ball | null = null;
+  private match: MatchState | null = null;
+  // Player input for each paddle, null for a CPU controlled paddle.
+  private leftController: PaddleController | null = null;
+  private rightController: PaddleController | null = null;
   private scoreDisplay: ScoreDisplay | null = null;
+  private instructionsEl: HTMLElement | null = null;
+  private expandButton: HTMLButtonElement | null = null;
+  // Offers to resume a saved match, or to reload once back online.
+  private promptEl: HTMLElement | null = null;
+  // Reloads the error page, to retry the failed navigation.
+  private reloadPage: () => void;
+  // Whether the court is expanded, to fill the screen in fullscreen or the
+  // page otherwise.
+  private expanded: boolean = false;
+
+  // Colors and accessibility preferences used for drawing.
+  private largeBall: boolean = loadSetting(LARGE_BALL_SETTING) === 'true';
+  private theme: RenderTheme = createRenderTheme(this.largeBall);
+  private soundFx: PongSoundFx | null = null;
+  private powerUps: boolean = loadSetting(POWER_UPS_SETTING) === 'true';
+  private chaos: boolean = loadSetting(CHAOS_SETTING) === 'true';
+  // Momentum for both paddles, so players and the CPU move the same way.
+  private inertia: boolean = loadSetting(INERTIA_SETTING) === 'true';
+  private rulesPreset: MatchRulesPreset = this.loadRulesPreset();
+  private gameModePreset: GameModePreset = this.loadGameModePreset();
+  // Stats of all finished matches and of the last one, and whether the game
+  // over screen is showing them. The last match's are kept apart from
+  // `match`, which menu keys replace with a new match.
+  private lifetimeStats: LifetimeStats = loadLifetimeStats();
+  private lastMatchStats: MatchStats | null = null;
+  private showingStats: boolean = false;
+  // Whether the last game set a new best score for its mode.
+  private newBestScore: boolean = false;
+
+  // Screen reader mode: audio cues for the ball, and spoken score changes.
+  private audioCues: boolean = loadSetting(AUDIO_CUES_SETTING) === 'true';
+  private ballAudioCue: BallAudioCue | null = null;
+  private liveRegion: HTMLElement | null = null;
 
   // Game state
   private state: GameState = GameState.WAITING;
+  private playMode: PlayMode = PlayMode.ONE_PLAYER;
+  private difficulty: AiDifficulty = AiDifficulty.NORMAL;
   private msPerFrame: number = 1000 / FPS;
   private time: number = 0;
   private raqId: number = 0;
   private updatePending: boolean = false;
+  // Time not yet consumed by fixed simulation ticks.
+  private accumulator: number = 0;
 
   // Input state
   private keysPressed: Set<number> = new Set();
-
-  // Score delay timer
-  private scoreDelayTimer: number = 0;
+  private gamepads: GamepadInput = new GamepadInput();
+  // Mouse, pen and touch control of the left paddle.
+  private pointerController: PointerController | null = null;
+  private pointerLocked: boolean = false;
+
+  // Recording of the match in progress, and of the last finished match.
+  private recorder: MatchRecorder | null = null;
+  private lastMatchLog: MatchLog | null = null;
+  // Result of the last match, shown on the game over screen.
+  private lastMatchResult: MatchResult | null = null;
+
+  // Replay playback
+  private replay: MatchReplay | null = null;
+  private replaySpeedIndex: number = REPLAY_SPEEDS.indexOf(1);
+  private replayPaused: boolean = false;
+  // Whether the viewer was told the replay no longer matches the recording.
+  private replayDivergenceAnnounced: boolean = false;
+
+  // State to return to after a pause, and the time left on the resume
+  // countdown (0 while waiting for the player to unpause).
+  private pausedState: GameState = GameState.PLAYING;
+  private resumeCountdown: number = 0;
+
+  // Persistent record, synced through the easter egg high score bridge.
+  private record: PongRecord = EMPTY_PONG_RECORD;
+  private syncRecord: boolean = false;
+  // Whether a match was lost on this page, which ends the stored streak.
+  private recordMatchLost: boolean = false;
 
   // Disabled state (for enterprise-managed devices)
   private isDisabled: boolean = loadTimeData.valueExists('disabledEasterEgg');
@@ -87,9 +254,10 @@ export class PongGame {
   /**
    * Initialize the singleton instance of PongGame.
    */
-  static initializeInstance(outerContainerId: string): PongGame {
+  static initializeInstance(
+      outerContainerId: string, reloadPage?: () => void): PongGame {
     assert(gameInstance === null);
-    gameInstance = new PongGame(outerContainerId);
+    gameInstance = new PongGame(outerContainerId, reloadPage);
     if (!gameInstance.isDisabled) {
       gameInstance.loadImages();
     }
@@ -101,11 +269,12 @@ export class PongGame {
     return gameInstance;
   }
 
-  private constructor(outerContainerId: string) {
+  private constructor(outerContainerId: string, reloadPage?: () => void) {
     const outerContainerElement =
         document.querySelector<HTMLElement>(outerContainerId);
     assert(outerContainerElement);
     this.outerContainerEl = outerContainerElement;
+    this.reloadPage = reloadPage ?? (() => window.location.reload());
 
     if (this.isDisabled) {
       this.setupDisabledMessage();
@@ -161,33 +330,35 @@ export class PongGame {
     this.containerEl = document.createElement('div');
     this.containerEl.setAttribute('role', 'application');
     this.containerEl.setAttribute('tabindex', '0');
-    this.containerEl.setAttribute('title', 'Pong Game');
-    this.containerEl.setAttribute('aria-label', 'Pong Game - Press Space to start');
+    this.containerEl.setAttribute('title', getPongString('pongTitle'));
+    this.containerEl.setAttribute('aria-label', getPongString('pongAriaLabel'));
     this.containerEl.className = PongClasses.CONTAINER;
 
+    // Announce score changes to screen readers
+    this.liveRegion = document.createElement('div');
+    this.liveRegion.className = PongClasses.LIVE_REGION;
+    this.liveRegion.setAttribute('role', 'status');
+    this.liveRegion.setAttribute('aria-live', 'polite');
+    this.liveRegion.style.cssText = 'position: absolute; width: 1px; ' +
+        'height: 1px; overflow: hidden; clip: rect(0 0 0 0); ' +
+        'white-space: nowrap;';
+    this.containerEl.appendChild(this.liveRegion);
+
     // Create canvas
     this.canvas = document.createElement('canvas');
     this.canvas.className = PongClasses.CANVAS;
-    this.canvas.width = this.dimensions.width;
-    this.canvas.height = this.dimensions.height;
     this.containerEl.appendChild(this.canvas);
 
     const canvasContext = this.canvas.getContext('2d');
     assert(canvasContext);
     this.canvasCtx = canvasContext;
-
-    this.updateCanvasScaling();
+    this.canvasScaler =
+        new CanvasScaler(this.canvas, this.canvasCtx, this.dimensions);
 
     // Initialize game entities
-    this.playerPaddle = new Paddle(
-        PONG_CONFIG.PADDLE_MARGIN,
-        this.dimensions.height);
-
-    this.aiPaddle = new Paddle(
-        this.dimensions.width - PONG_CONFIG.PADDLE_MARGIN - PONG_CONFIG.PADDLE_WIDTH,
-        this.dimensions.height);
-
-    this.ball = new Ball(this.dimensions.width, this.dimensions.height);
+    this.pointerController = new PointerController(this.dimensions.height);
+    this.difficulty = this.loadDifficulty();
+    this.setPlayMode(PlayMode.ONE_PLAYER);
 
     assert(this.imageSprite);
     this.scoreDisplay = new ScoreDisplay(
@@ -195,16 +366,39 @@ export class PongGame {
         this.spriteDef.textSprite,
         this.dimensions.width,
         this.dimensions.height,
-        this.imageSprite);
+        this.imageSprite,
+        this.theme);
+    this.scoreDisplay.setRecord(this.record);
+    this.soundFx = new PongSoundFx();
+    this.ballAudioCue = new BallAudioCue(this.soundFx);
 
     this.outerContainerEl.appendChild(this.containerEl);
 
     // Add instructions below the game
     const instructions = document.createElement('div');
     instructions.className = 'pong-instructions';
-    instructions.textContent = 'Press space to start. Use arrow keys to control the paddle.';
-    instructions.style.cssText = 'color: #757575; font-size: 12px; margin-top: 10px; text-align: center;';
+    instructions.textContent = getPongString('pongInstructions');
+    instructions.style.cssText = 'font-size: 12px; margin-top: 10px; text-align: center;';
+    instructions.style.color = this.theme.secondaryText;
     this.outerContainerEl.appendChild(instructions);
+    this.instructionsEl = instructions;
+
+    const expandButton = document.createElement('button');
+    expandButton.textContent = getPongString('pongExpand');
+    expandButton.style.cssText = 'display: block; font-size: 12px; ' +
+        'margin: 6px auto 0;';
+    expandButton.addEventListener('click', this.toggleExpanded.bind(this));
+    this.outerContainerEl.appendChild(expandButton);
+    this.expandButton = expandButton;
+
+    this.promptEl = document.createElement('div');
+    this.promptEl.style.cssText = 'font-size: 12px; margin-top: 10px; ' +
+        'text-align: center;';
+    this.promptEl.hidden = true;
+    this.outerContainerEl.appendChild(this.promptEl);
+
+    // Follow changes to motion and contrast preferences
+    watchRenderThemePreferences(this.updateTheme.bind(this));
 
     // Start listening for input
     this.startListening();
@@ -212,29 +406,97 @@ export class PongGame {
     // Start the game loop
     this.update();
 
-    // Handle window resize
+    // Handle window resize, and entering or leaving fullscreen
     window.addEventListener('resize', this.debounceResize.bind(this));
+    document.addEventListener(
+        'fullscreenchange', this.onFullscreenChange.bind(this));
+
+    // Keep a match in progress when the page reloads, e.g. once the network
+    // is back. Where nothing outlives the page there is no resuming.
+    window.addEventListener('online', this.onOnline.bind(this));
+    window.addEventListener('pagehide', this.saveMatchInProgress.bind(this));
+    const savedMatch = canSaveMatch() ? loadSavedMatch() : null;
+    if (savedMatch) {
+      this.showPrompt(getPongString('pongResumePrompt'), [
+        {
+          label: getPongString('pongResumeMatch'),
+          onClick: () => this.resumeSavedMatch(savedMatch),
+        },
+        {
+          label: getPongString('pongDiscardMatch'),
+          onClick: () => clearSavedMatch(),
+        },
+      ]);
+    }
+
+    window.initializeEasterEggHighScore = this.initializeRecord.bind(this);
   }
 
   /**
-   * Update canvas scaling for HiDPI displays.
+   * Receive the record stored by the browser. Called from C++ once the page
+   * has loaded.
    */
-  private updateCanvasScaling() {
-    assert(this.canvas);
-    assert(this.canvasCtx);
+  private initializeRecord(storedValue: number) {
+    this.syncRecord = true;
+    const storedRecord = decodePongRecord(storedValue);
+    const merged =
+        mergePongRecords(storedRecord, this.record, this.recordMatchLost);
+
+    // Matches finished before the browser responded are pushed back.
+    if (!isSamePongRecord(merged, storedRecord) &&
+        window.errorPageController) {
+      window.errorPageController.updateEasterEggHighScore(
+          encodePongRecord(merged));
+    }
+
+    this.record = merged;
+    this.scoreDisplay?.setRecord(this.record);
+  }
+
+  /**
+   * Update the record and propagate it back to the browser.
+   */
+  private saveRecord(record: PongRecord, resetRecord?: boolean) {
+    this.record = record;
+    this.scoreDisplay?.setRecord(this.record);
 
-    const devicePixelRatio = Math.floor(window.devicePixelRatio) || 1;
-    if (devicePixelRatio !== 1) {
-      const oldWidth = this.canvas.width;
-      const oldHeight = this.canvas.height;
+    if (this.syncRecord && window.errorPageController) {
+      if (resetRecord) {
+        window.errorPageController.resetEasterEggHighScore();
+      } else {
+        window.errorPageController.updateEasterEggHighScore(
+            encodePongRecord(this.record));
+      }
+    }
+  }
+
+  /**
+   * Handle clicks on the record line. The first click flashes it, a second
+   * click while flashing resets it.
+   * @return Whether the event was consumed.
+   */
+  private handleRecordClick(e: Event): boolean {
+    assert(this.scoreDisplay);
+    if ((this.state !== GameState.WAITING &&
+         this.state !== GameState.GAME_OVER) ||
+        this.hasBestScore()) {
+      return false;
+    }
 
-      this.canvas.width = oldWidth * devicePixelRatio;
-      this.canvas.height = oldHeight * devicePixelRatio;
-      this.canvas.style.width = oldWidth + 'px';
-      this.canvas.style.height = oldHeight + 'px';
+    if (!this.scoreDisplay.hasClickedOnRecord(e)) {
+      this.scoreDisplay.cancelRecordFlashing();
+      return false;
+    }
 
-      this.canvasCtx.scale(devicePixelRatio, devicePixelRatio);
+    if (this.scoreDisplay.isRecordFlashing()) {
+      // Subsequent click, reset the record.
+      this.saveRecord(EMPTY_PONG_RECORD, true);
+      this.scoreDisplay.resetRecord();
+    } else {
+      // First click, flash the record.
+      this.scoreDisplay.startRecordFlashing();
     }
+    return true;
   }
 
   private resizeTimerId?: number;
@@ -259,36 +521,487 @@ export class PongGame {
     const boxStyles = window.getComputedStyle(this.outerContainerEl);
     const padding = Number(
         boxStyles.paddingLeft.substr(0, boxStyles.paddingLeft.length - 2));
+    const availableWidth = this.outerContainerEl.offsetWidth - padding * 2;
+
+    // The expanded court has a fixed, taller shape and is scaled up to fit,
+    // so paddles and balls grow with it. The inline court narrows to fit.
+    let displayScale = 1;
+    if (this.expanded) {
+      this.dimensions.width = EXPANDED_DIMENSIONS.width;
+      this.dimensions.height = EXPANDED_DIMENSIONS.height;
+      const width =
+          document.fullscreenElement ? window.innerWidth : availableWidth;
+      displayScale = Math.min(
+          width / this.dimensions.width,
+          window.innerHeight / this.dimensions.height);
+    } else {
+      this.dimensions.width =
+          Math.min(DEFAULT_DIMENSIONS.width, availableWidth);
+      this.dimensions.height = DEFAULT_DIMENSIONS.height;
+    }
 
-    this.dimensions.width = Math.min(
-        DEFAULT_DIMENSIONS.width,
-        this.outerContainerEl.offsetWidth - padding * 2);
-
-    if (this.canvas) {
-      this.canvas.width = this.dimensions.width;
-      this.canvas.height = this.dimensions.height;
-      this.updateCanvasScaling();
+    if (this.canvasScaler) {
+      this.canvasScaler.setSize(this.dimensions, displayScale);
+      this.pointerController?.setCourtHeight(this.dimensions.height);
 
-      // Update AI paddle position for new width
-      if (this.aiPaddle) {
-        this.aiPaddle.x = this.dimensions.width - PONG_CONFIG.PADDLE_MARGIN -
-            PONG_CONFIG.PADDLE_WIDTH;
+      // Rescale the match into the new court. A replay keeps the court it
+      // was recorded with, and is drawn scaled instead.
+      if (this.match && !this.replay) {
+        resizeCourt(this.match, this.dimensions);
+        this.recorder?.recordResize(this.dimensions);
       }
+      this.scoreDisplay?.resize(
+          this.dimensions.width, this.dimensions.height);
+    }
+  }
 
-      // Update ball canvas dimensions
-      if (this.ball) {
-        this.ball = new Ball(this.dimensions.width, this.dimensions.height);
-      }
+  /**
+   * Expand the court, or return it to its inline size. Fullscreen is used
+   * where available, otherwise the court fills the page.
+   */
+  private toggleExpanded() {
+    assert(this.containerEl);
+    if (document.fullscreenElement) {
+      document.exitFullscreen();
+      return;
+    }
+    if (this.expanded || !document.fullscreenEnabled) {
+      this.setExpanded(!this.expanded);
+      return;
+    }
+    // The court is expanded once fullscreen is entered, see
+    // `onFullscreenChange()`.
+    this.containerEl.requestFullscreen().catch(() => {
+      this.setExpanded(true);
+    });
+  }
 
-      // Update score display dimensions
-      if (this.scoreDisplay && this.imageSprite) {
-        this.scoreDisplay = new ScoreDisplay(
-            this.canvas,
-            this.spriteDef.textSprite,
-            this.dimensions.width,
-            this.dimensions.height,
-            this.imageSprite);
-      }
+  /**
+   * Follow fullscreen being entered or left, including by the browser, e.g.
+   * when Escape is pressed.
+   */
+  private onFullscreenChange() {
+    this.setExpanded(document.fullscreenElement === this.containerEl);
+  }
+
+  private setExpanded(expanded: boolean) {
+    assert(this.containerEl);
+    this.expanded = expanded;
+    this.containerEl.classList.toggle(PongClasses.EXPANDED, expanded);
+    if (this.expandButton) {
+      this.expandButton.textContent =
+          getPongString(expanded ? 'pongCollapse' : 'pongExpand');
+    }
+    this.adjustDimensions();
+  }
+
+  /**
+   * Show a message below the game with buttons to act on it. Any button
+   * also dismisses the message.
+   */
+  private showPrompt(
+      message: string,
+      actions: Array<{label: string, onClick: () => void}>) {
+    assert(this.promptEl);
+    this.promptEl.replaceChildren(message);
+    for (const action of actions) {
+      const button = document.createElement('button');
+      button.textContent = action.label;
+      button.style.marginInlineStart = '8px';
+      button.addEventListener('click', () => {
+        this.hidePrompt();
+        action.onClick();
+      });
+      this.promptEl.appendChild(button);
+    }
+    this.promptEl.style.color = this.theme.secondaryText;
+    this.promptEl.hidden = false;
+    this.announce(message);
+  }
+
+  private hidePrompt() {
+    if (this.promptEl) {
+      this.promptEl.hidden = true;
+    }
+  }
+
+  /**
+   * The network is back, so the error page may be reloaded. Save the match
+   * in progress in case it is, and let the player choose between finishing
+   * it and reloading now.
+   */
+  private onOnline() {
+    if (!this.isMatchInProgress()) {
+      return;
+    }
+    this.saveMatchInProgress();
+    this.showPrompt(getPongString('pongBackOnline'), [
+      {label: getPongString('pongFinishMatch'), onClick: () => {}},
+      {label: getPongString('pongReload'), onClick: () => this.reloadPage()},
+    ]);
+  }
+
+  /**
+   * Save the match in progress, so it can be resumed after the page reloads.
+   */
+  private saveMatchInProgress() {
+    if (!canSaveMatch() || !this.isMatchInProgress() || !this.recorder) {
+      return;
+    }
+    saveMatch({
+      log: this.recorder.getLog(),
+      gameModePreset: this.gameModePreset,
+      rulesPreset: this.rulesPreset,
+    });
+  }
+
+  /**
+   * Pick up a match saved by an earlier visit to the page. It starts paused
+   * so the player can get ready.
+   */
+  private resumeSavedMatch(saved: SavedMatch) {
+    assert(this.scoreDisplay);
+    clearSavedMatch();
+    if (this.state === GameState.REPLAY) {
+      this.replay = null;
+    }
+
+    const {log} = saved;
+    this.gameModePreset = saved.gameModePreset;
+    this.rulesPreset = saved.rulesPreset;
+    const rightAi = log.options.rightAi;
+    if (rightAi != null) {
+      this.difficulty = rightAi;
+    }
+    this.setPlayMode(
+        rightAi != null ? PlayMode.ONE_PLAYER : PlayMode.TWO_PLAYERS);
+
+    const replay = new MatchReplay(log);
+    replay.seek(log.ticks);
+    this.match = replay.getState();
+    this.recorder = MatchRecorder.fromLog(log);
+    resizeCourt(this.match, this.dimensions);
+    this.recorder.recordResize(this.dimensions);
+
+    this.newBestScore = false;
+    this.scoreDisplay.setScores(
+        this.match.scores.left, this.match.scores.right);
+    this.updateMatchStatus(this.match);
+    this.state = GameState.PLAYING;
+    this.pause();
+    this.announce(getPongString('pongAnnounceMatchResumed'));
+  }
+
+  /**
+   * Rebuild the render theme, after a system preference or the ball size
+   * setting changed.
+   */
+  private updateTheme() {
+    this.theme = createRenderTheme(this.largeBall);
+    this.scoreDisplay?.setTheme(this.theme);
+    if (this.instructionsEl) {
+      this.instructionsEl.style.color = this.theme.secondaryText;
+    }
+  }
+
+  /**
+   * Toggle the larger ball, which applies from the next match.
+   */
+  private toggleLargeBall() {
+    this.largeBall = !this.largeBall;
+    saveSetting(LARGE_BALL_SETTING, String(this.largeBall));
+    this.updateTheme();
+    this.match = this.createMatch();
+  }
+
+  /**
+   * Turn power-ups on or off, from the next match.
+   */
+  private togglePowerUps() {
+    this.powerUps = !this.powerUps;
+    saveSetting(POWER_UPS_SETTING, String(this.powerUps));
+    this.announce(getPongString(
+        this.powerUps ? 'pongAnnouncePowerUpsOn' :
+                        'pongAnnouncePowerUpsOff'));
+    this.match = this.createMatch();
+  }
+
+  /**
+   * Turn chaos mode, which keeps adding balls during a rally, on or off from
+   * the next match.
+   */
+  private toggleChaos() {
+    this.chaos = !this.chaos;
+    saveSetting(CHAOS_SETTING, String(this.chaos));
+    this.announce(getPongString(
+        this.chaos ? 'pongAnnounceChaosOn' : 'pongAnnounceChaosOff'));
+    this.match = this.createMatch();
+  }
+
+  /**
+   * Turn paddle momentum on or off, from the next match.
+   */
+  private toggleInertia() {
+    this.inertia = !this.inertia;
+    saveSetting(INERTIA_SETTING, String(this.inertia));
+    this.announce(getPongString(
+        this.inertia ? 'pongAnnounceInertiaOn' : 'pongAnnounceInertiaOff'));
+    this.match = this.createMatch();
+  }
+
+  /**
+   * Switch between playing against the CPU and local two player.
+   */
+  private setPlayMode(mode: PlayMode) {
+    assert(this.pointerController);
+    this.playMode = mode;
+    if (mode === PlayMode.TWO_PLAYERS) {
+      // W/S drive the paddle drawn on the left and the arrow keys the one on
+      // the right, which are swapped in the mirrored RTL court.
+      const wsKeys = new KeyboardController(
+          this.keysPressed, [KEY_CODES.W], [KEY_CODES.S]);
+      const arrowKeys = new KeyboardController(
+          this.keysPressed, [KEY_CODES.UP], [KEY_CODES.DOWN]);
+      this.leftController = new CombinedController([
+        IS_RTL ? arrowKeys : wsKeys,
+        new GamepadController(this.gamepads, 0),
+        this.pointerController,
+      ]);
+      this.rightController = new CombinedController([
+        IS_RTL ? wsKeys : arrowKeys,
+        new GamepadController(this.gamepads, 1),
+      ]);
+    } else {
+      this.leftController = new CombinedController([
+        new KeyboardController(
+            this.keysPressed, [KEY_CODES.UP, KEY_CODES.W],
+            [KEY_CODES.DOWN, KEY_CODES.S]),
+        new GamepadController(this.gamepads, 0),
+        this.pointerController,
+      ]);
+      this.rightController = null;
+    }
+    this.match = this.createMatch();
+  }
+
+  /**
+   * Create an idle match for the current mode, with a fresh seed.
+   */
+  private createMatch(): MatchState {
+    return createMatchState(this.getMatchOptions());
+  }
+
+  private getMatchOptions(): MatchOptions {
+    return {
+      court: this.dimensions,
+      seed: createSeed(),
+      ballSize: this.theme.ballSize,
+      powerUps: this.powerUps,
+      chaos: this.chaos,
+      leftPaddlePhysics: this.inertia ? MOMENTUM_PADDLE_PHYSICS : null,
+      rightPaddlePhysics: this.inertia ? MOMENTUM_PADDLE_PHYSICS : null,
+      rules: MATCH_RULES_PRESETS[this.rulesPreset].rules,
+      mode: GAME_MODE_PRESETS[this.gameModePreset].mode,
+      timeLimit: GAME_MODE_PRESETS[this.gameModePreset].timeLimit,
+      rightAi: this.playMode === PlayMode.ONE_PLAYER ? this.difficulty : null,
+    };
+  }
+
+  /**
+   * Restore the game mode chosen in a previous session.
+   */
+  private loadGameModePreset(): GameModePreset {
+    const saved = loadSetting(GAME_MODE_SETTING);
+    if (saved === null || !(saved in GAME_MODE_PRESETS)) {
+      return GameModePreset.CLASSIC;
+    }
+    return Number(saved) as GameModePreset;
+  }
+
+  /**
+   * Switch to the next game mode, from the next match.
+   */
+  private cycleGameModePreset() {
+    const count = Object.keys(GAME_MODE_PRESETS).length;
+    this.gameModePreset = (this.gameModePreset + 1) % count;
+    saveSetting(GAME_MODE_SETTING, String(this.gameModePreset));
+    this.newBestScore = false;
+    this.match = this.createMatch();
+  }
+
+  /**
+   * Restore the match rules chosen in a previous session.
+   */
+  private loadRulesPreset(): MatchRulesPreset {
+    const saved = loadSetting(RULES_SETTING);
+    if (saved === null || !(saved in MATCH_RULES_PRESETS)) {
+      return MatchRulesPreset.ELEVEN_POINTS;
+    }
+    return Number(saved) as MatchRulesPreset;
+  }
+
+  /**
+   * Switch to the next set of match rules, from the next match.
+   */
+  private cycleRulesPreset() {
+    const count = Object.keys(MATCH_RULES_PRESETS).length;
+    this.rulesPreset = (this.rulesPreset + 1) % count;
+    saveSetting(RULES_SETTING, String(this.rulesPreset));
+    this.match = this.createMatch();
+  }
+
+  /**
+   * Restore the difficulty chosen in a previous session.
+   */
+  private loadDifficulty(): AiDifficulty {
+    const saved = loadSetting(DIFFICULTY_SETTING);
+    if (saved === null || !(saved in AI_DIFFICULTY_PRESETS)) {
+      return AiDifficulty.NORMAL;
+    }
+    return Number(saved);
+  }
+
+  /**
+   * Step to the next CPU difficulty, wrapping around after the hardest.
+   */
+  private cycleDifficulty() {
+    const count = Object.keys(AI_DIFFICULTY_PRESETS).length;
+    this.difficulty = (this.difficulty + 1) % count;
+    saveSetting(DIFFICULTY_SETTING, String(this.difficulty));
+    this.setPlayMode(this.playMode);
+  }
+
+  /**
+   * Options shown on the start and game over screens.
+   */
+  private getMenuItems(): MenuItem[] {
+    const isTwoPlayer = this.playMode === PlayMode.TWO_PLAYERS;
+    const muted = !!this.soundFx?.isMuted();
+    const items = [
+      {label: getPongString('pongMenuOnePlayer'), active: !isTwoPlayer},
+      {label: getPongString('pongMenuTwoPlayers'), active: isTwoPlayer},
+      {
+        label: getPongString(
+            'pongMenuDifficulty',
+            getPongString(AI_DIFFICULTY_PRESETS[this.difficulty].labelId)),
+        active: !isTwoPlayer,
+      },
+      {
+        label: getPongString(
+            'pongMenuMode',
+            getPongString(GAME_MODE_PRESETS[this.gameModePreset].labelId)),
+        active: true,
+      },
+      {
+        label: getPongString(
+            'pongMenuRules',
+            getPongString(MATCH_RULES_PRESETS[this.rulesPreset].labelId)),
+        active: true,
+      },
+      {
+        label: getPongString(muted ? 'pongMenuSoundOff' : 'pongMenuSoundOn'),
+        active: !muted,
+      },
+      {
+        label: getPongString(
+            this.audioCues ? 'pongMenuAudioCuesOn' : 'pongMenuAudioCuesOff'),
+        active: this.audioCues,
+      },
+      {
+        label: getPongString(
+            this.largeBall ? 'pongMenuBallLarge' : 'pongMenuBallNormal'),
+        active: this.largeBall,
+      },
+      {
+        label: getPongString(
+            this.powerUps ? 'pongMenuPowerUpsOn' : 'pongMenuPowerUpsOff'),
+        active: this.powerUps,
+      },
+      {
+        label: getPongString(
+            this.chaos ? 'pongMenuChaosOn' : 'pongMenuChaosOff'),
+        active: this.chaos,
+      },
+      {
+        label: getPongString(
+            this.inertia ? 'pongMenuInertiaOn' : 'pongMenuInertiaOff'),
+        active: this.inertia,
+      },
+    ];
+    // Looking back at the match comes first at game over, so it is on the
+    // menu's first page.
+    const gameOverItems: MenuItem[] = [];
+    if (this.state === GameState.GAME_OVER) {
+      gameOverItems.push({label: getPongString('pongMenuStats'), active: true});
+    }
+    if (this.state === GameState.GAME_OVER && this.lastMatchLog) {
+      gameOverItems.push(
+          {label: getPongString('pongMenuReplay'), active: true});
+    }
+    return [...gameOverItems, ...items];
+  }
+
+  /**
+   * Lines of the stats panel, for the last match and all matches.
+   */
+  private getStatsRows(stats: MatchStats): StatsRow[] {
+    const lifetime = this.lifetimeStats;
+    // Speeds are shown per second rather than per tick.
+    const formatSpeed = (speed: number) =>
+        getPongString('pongStatsSpeed', Math.round(speed * 1000 / TICK_MS));
+    const formatTime = (ticks: number) => {
+      const seconds = Math.round(ticks * TICK_MS / 1000);
+      return `${Math.floor(seconds / 60)}:` +
+          String(seconds % 60).padStart(2, '0');
+    };
+    return [
+      {
+        label: getPongString('pongStatsTimePlayed'),
+        match: formatTime(stats.ticks),
+        lifetime: formatTime(lifetime.ticks),
+      },
+      {
+        label: getPongString('pongStatsHits'),
+        match: String(stats.hits.left + stats.hits.right),
+        lifetime: String(lifetime.hits),
+      },
+      {
+        label: getPongString('pongStatsLongestRally'),
+        match: String(stats.longestRally),
+        lifetime: String(lifetime.longestRally),
+      },
+      {
+        label: getPongString('pongStatsEdgeHits'),
+        match: String(stats.edgeHits.left + stats.edgeHits.right),
+        lifetime: String(lifetime.edgeHits),
+      },
+      {
+        label: getPongString('pongStatsAverageSpeed'),
+        match: formatSpeed(getAverageSpeed(stats)),
+        lifetime: formatSpeed(getAverageSpeed(lifetime)),
+      },
+      {
+        label: getPongString('pongStatsTopSpeed'),
+        match: formatSpeed(stats.maxSpeed),
+        lifetime: formatSpeed(lifetime.maxSpeed),
+      },
+    ];
+  }
+
+  /**
+   * Show or hide the stats panel on the game over screen.
+   */
+  private toggleStats() {
+    if (!this.lastMatchStats) {
+      return;
+    }
+    this.showingStats = !this.showingStats;
+    if (this.showingStats) {
+      this.announce(getPongString(
+          'pongAnnounceStats',
+          this.getStatsRows(this.lastMatchStats)
+              .map(row => `${row.label} ${row.match}`)
+              .join(', ')));
     }
   }
 
@@ -299,11 +1012,212 @@ export class PongGame {
     document.addEventListener('keydown', this.onKeyDown.bind(this));
     document.addEventListener('keyup', this.onKeyUp.bind(this));
 
+    // Match logs are exported and imported through the clipboard, e.g. to
+    // share a replay in a bug report.
+    document.addEventListener('copy', this.onCopy.bind(this));
+    document.addEventListener('paste', this.onPaste.bind(this));
+
+    // Pause when the page is hidden or loses focus
+    document.addEventListener(
+        'visibilitychange', this.onVisibilityChange.bind(this));
+    window.addEventListener('blur', this.onBlur.bind(this));
+
+    // Gamepads, one per paddle
+    if (GamepadInput.isSupported()) {
+      window.addEventListener(
+          'gamepadconnected', this.onGamepadConnected.bind(this));
+      window.addEventListener(
+          'gamepaddisconnected', this.onGamepadDisconnected.bind(this));
+    }
+
     // Touch controls for mobile
     if (IS_MOBILE && this.containerEl) {
       this.containerEl.addEventListener('touchstart', this.onTouchStart.bind(this));
       this.containerEl.addEventListener('touchmove', this.onTouchMove.bind(this));
       this.containerEl.addEventListener('touchend', this.onTouchEnd.bind(this));
+    } else if (this.containerEl && this.canvas) {
+      // Pointer controls for mouse, pen and touchscreen laptops
+      this.canvas.style.touchAction = 'none';
+      this.containerEl.addEventListener(
+          'pointerdown', this.onPointerDown.bind(this));
+      this.containerEl.addEventListener(
+          'pointermove', this.onPointerMove.bind(this));
+      this.containerEl.addEventListener(
+          'pointerup', this.onPointerUp.bind(this));
+      this.containerEl.addEventListener(
+          'pointercancel', this.onPointerUp.bind(this));
+      this.containerEl.addEventListener(
+          'pointerleave', this.onPointerLeave.bind(this));
+      this.containerEl.addEventListener(
+          'dblclick', this.onDoubleClick.bind(this));
+      document.addEventListener(
+          'pointerlockchange', this.onPointerLockChange.bind(this));
+    }
+  }
+
+  /**
+   * Copy the log of the last match on the game over screen, unless text is
+   * selected.
+   */
+  private onCopy(e: ClipboardEvent) {
+    const selection = window.getSelection();
+    if (this.state !== GameState.GAME_OVER || !this.lastMatchLog ||
+        !e.clipboardData || (selection && !selection.isCollapsed)) {
+      return;
+    }
+    e.preventDefault();
+    e.clipboardData.setData(
+        'text/plain', serializeMatchLog(this.lastMatchLog));
+    this.announce(getPongString('pongAnnounceReplayCopied'));
+  }
+
+  /**
+   * Play back a match log pasted on the start or game over screen.
+   */
+  private onPaste(e: ClipboardEvent) {
+    if ((this.state !== GameState.WAITING &&
+         this.state !== GameState.GAME_OVER) ||
+        !e.clipboardData) {
+      return;
+    }
+    const log = parseMatchLog(e.clipboardData.getData('text/plain'));
+    if (!log) {
+      return;
+    }
+    e.preventDefault();
+    this.replayMatch(log);
+  }
+
+  /**
+   * Handle a gamepad being connected.
+   */
+  private onGamepadConnected(e: GamepadEvent) {
+    this.gamepads.connect(e.gamepad);
+  }
+
+  /**
+   * Handle a gamepad being disconnected. Pauses the match if the gamepad was
+   * controlling a paddle.
+   */
+  private onGamepadDisconnected(e: GamepadEvent) {
+    const slot = this.gamepads.disconnect(e.gamepad);
+    const inUse =
+        slot === 0 || (slot === 1 && this.playMode === PlayMode.TWO_PLAYERS);
+    if (inUse && this.isMatchInProgress()) {
+      this.pause();
+    }
+  }
+
+  /**
+   * Handle gamepad buttons: A starts a game or resumes, Start pauses.
+   */
+  private handleGamepadButtons() {
+    if (this.gamepads.wasButtonPressedOnAny(GamepadButton.A)) {
+      this.soundFx?.resume();
+      if (this.state === GameState.WAITING ||
+          this.state === GameState.GAME_OVER) {
+        this.startGame();
+      } else if (this.state === GameState.PAUSED) {
+        this.resume();
+      }
+    }
+
+    if (this.gamepads.wasButtonPressedOnAny(GamepadButton.START)) {
+      if (this.state === GameState.PAUSED) {
+        this.resume();
+      } else if (this.isMatchInProgress()) {
+        this.pause();
+      }
+    }
+  }
+
+  /**
+   * Map a client Y coordinate to the court, correcting for the canvas being
+   * scaled by CSS.
+   */
+  private clientToCourtY(clientY: number): number {
+    assert(this.canvas);
+    const canvasRect = this.canvas.getBoundingClientRect();
+    const courtHeight = this.match?.court.height ?? this.dimensions.height;
+    const scale = canvasRect.height ? courtHeight / canvasRect.height : 1;
+    return (clientY - canvasRect.top) * scale;
+  }
+
+  /**
+   * Handle pointer down. Pen and touch pointers drag the paddle, and can
+   * start or resume a game like a tap on mobile.
+   */
+  private onPointerDown(e: PointerEvent) {
+    assert(this.pointerController);
+    this.soundFx?.resume();
+    if (this.handleRecordClick(e) || e.pointerType === 'mouse') {
+      return;
+    }
+
+    e.preventDefault();
+    this.containerEl?.setPointerCapture(e.pointerId);
+    this.pointerController.setTarget(this.clientToCourtY(e.clientY));
+
+    if (this.state === GameState.WAITING || this.state === GameState.GAME_OVER) {
+      this.startGame();
+    } else if (this.state === GameState.PAUSED) {
+      this.resume();
+    }
+  }
+
+  /**
+   * Handle pointer move. A mouse positions the paddle by hovering, pen and
+   * touch while pressed. With the pointer locked, movement is relative.
+   */
+  private onPointerMove(e: PointerEvent) {
+    assert(this.pointerController);
+    assert(this.match);
+
+    if (this.pointerLocked) {
+      assert(this.canvas);
+      const canvasRect = this.canvas.getBoundingClientRect();
+      const scale =
+          canvasRect.height ? this.dimensions.height / canvasRect.height : 1;
+      const paddle = this.match.leftPaddle;
+      this.pointerController.moveTarget(
+          e.movementY * scale, paddle.y + paddle.height / 2);
+    } else if (e.pointerType === 'mouse' || e.buttons !== 0) {
+      this.pointerController.setTarget(this.clientToCourtY(e.clientY));
+    }
+  }
+
+  /**
+   * Handle pen or touch lifting off the screen.
+   */
+  private onPointerUp(e: PointerEvent) {
+    if (e.pointerType !== 'mouse') {
+      this.pointerController?.release();
+    }
+  }
+
+  /**
+   * Hand the paddle back to the keyboard when the mouse leaves the game.
+   */
+  private onPointerLeave() {
+    if (!this.pointerLocked) {
+      this.pointerController?.release();
+    }
+  }
+
+  /**
+   * Double click locks the pointer, for relative mouse movement.
+   */
+  private onDoubleClick() {
+    if (!this.pointerLocked && this.canvas?.requestPointerLock) {
+      this.canvas.requestPointerLock();
+    }
+  }
+
+  private onPointerLockChange() {
+    this.pointerLocked = !!this.canvas &&
+        document.pointerLockElement === this.canvas;
+    if (!this.pointerLocked) {
+      this.pointerController?.release();
     }
   }
 
@@ -314,8 +1228,14 @@ export class PongGame {
    */
   private onTouchStart(e: TouchEvent) {
     e.preventDefault();
+    this.soundFx?.resume();
+    if (this.handleRecordClick(e)) {
+      return;
+    }
     if (this.state === GameState.WAITING || this.state === GameState.GAME_OVER) {
       this.startGame();
+    } else if (this.state === GameState.PAUSED) {
+      this.resume();
     }
     this.touchY = e.touches[0]?.clientY ?? null;
   }
@@ -325,16 +1245,10 @@ export class PongGame {
    */
   private onTouchMove(e: TouchEvent) {
     e.preventDefault();
-    if (this.touchY !== null && this.playerPaddle && this.canvas) {
+    if (this.touchY !== null && this.canvas) {
       const currentY = e.touches[0]?.clientY;
       if (currentY !== undefined) {
-        const canvasRect = this.canvas.getBoundingClientRect();
-        const relativeY = currentY - canvasRect.top;
-        this.playerPaddle.y = Math.max(
-            0,
-            Math.min(
-                this.dimensions.height - this.playerPaddle.height,
-                relativeY - this.playerPaddle.height / 2));
+        this.pointerController?.setTarget(this.clientToCourtY(currentY));
       }
     }
   }
@@ -345,6 +1259,7 @@ export class PongGame {
   private onTouchEnd(e: TouchEvent) {
     e.preventDefault();
     this.touchY = null;
+    this.pointerController?.release();
   }
 
   /**
@@ -352,6 +1267,59 @@ export class PongGame {
    */
   private onKeyDown(e: KeyboardEvent) {
     const keyCode = e.keyCode;
+    this.soundFx?.resume();
+
+    // Leave browser shortcuts, e.g. copying and pasting match logs, alone.
+    if (e.ctrlKey || e.metaKey) {
+      return;
+    }
+
+    if (keyCode === KEY_CODES.M) {
+      this.soundFx?.toggleMuted();
+      this.announce(getPongString(
+          this.soundFx?.isMuted() ? 'pongAnnounceSoundOff' :
+                                    'pongAnnounceSoundOn'));
+      return;
+    }
+
+    if (keyCode === KEY_CODES.F) {
+      this.toggleExpanded();
+      return;
+    }
+
+    if (keyCode === KEY_CODES.A &&
+        (this.state === GameState.WAITING ||
+         this.state === GameState.GAME_OVER)) {
+      this.toggleAudioCues();
+      return;
+    }
+
+    if (this.state === GameState.REPLAY) {
+      this.onReplayKeyDown(e);
+      return;
+    }
+
+    if (keyCode === KEY_CODES.P || keyCode === KEY_CODES.ESCAPE) {
+      if (this.state === GameState.PAUSED && this.resumeCountdown === 0) {
+        e.preventDefault();
+        this.resume();
+      } else if (this.isMatchInProgress()) {
+        e.preventDefault();
+        this.pause();
+      }
+      return;
+    }
+
+    if (keyCode === KEY_CODES.V && this.state === GameState.GAME_OVER) {
+      this.toggleStats();
+      return;
+    }
+
+    if (keyCode === KEY_CODES.R && this.state === GameState.GAME_OVER &&
+        this.lastMatchLog) {
+      this.replayMatch(this.lastMatchLog);
+      return;
+    }
 
     if (keyCode === KEY_CODES.SPACE) {
       e.preventDefault();
@@ -360,10 +1328,70 @@ export class PongGame {
       }
     }
 
+    if ((keyCode === KEY_CODES.ONE || keyCode === KEY_CODES.TWO) &&
+        (this.state === GameState.WAITING ||
+         this.state === GameState.GAME_OVER)) {
+      this.setPlayMode(
+          keyCode === KEY_CODES.TWO ? PlayMode.TWO_PLAYERS :
+                                      PlayMode.ONE_PLAYER);
+    }
+
+    if (keyCode === KEY_CODES.L &&
+        (this.state === GameState.WAITING ||
+         this.state === GameState.GAME_OVER)) {
+      this.toggleLargeBall();
+    }
+
+    if (keyCode === KEY_CODES.U &&
+        (this.state === GameState.WAITING ||
+         this.state === GameState.GAME_OVER)) {
+      this.togglePowerUps();
+    }
+
+    if (keyCode === KEY_CODES.I &&
+        (this.state === GameState.WAITING ||
+         this.state === GameState.GAME_OVER)) {
+      this.toggleInertia();
+    }
+
+    if (keyCode === KEY_CODES.C &&
+        (this.state === GameState.WAITING ||
+         this.state === GameState.GAME_OVER)) {
+      this.toggleChaos();
+    }
+
+    if (keyCode === KEY_CODES.T &&
+        (this.state === GameState.WAITING ||
+         this.state === GameState.GAME_OVER)) {
+      this.cycleGameModePreset();
+    }
+
+    if (keyCode === KEY_CODES.G &&
+        (this.state === GameState.WAITING ||
+         this.state === GameState.GAME_OVER)) {
+      this.cycleRulesPreset();
+    }
+
+    if (keyCode === KEY_CODES.D &&
+        (this.state === GameState.WAITING ||
+         this.state === GameState.GAME_OVER)) {
+      this.cycleDifficulty();
+    }
+
+    if (keyCode === KEY_CODES.N &&
+        (this.state === GameState.WAITING ||
+         this.state === GameState.GAME_OVER)) {
+      this.scoreDisplay?.nextMenuPage();
+    }
+
     if (keyCode === KEY_CODES.UP || keyCode === KEY_CODES.DOWN ||
         keyCode === KEY_CODES.W || keyCode === KEY_CODES.S) {
       e.preventDefault();
       this.keysPressed.add(keyCode);
+      // The keyboard takes over from a hovering mouse until it moves again.
+      if (!this.pointerLocked) {
+        this.pointerController?.release();
+      }
     }
   }
 
@@ -383,17 +1411,311 @@ export class PongGame {
       this.scoreDisplay?.reset();
     }
 
+    // A new match replaces any saved one.
+    clearSavedMatch();
+    this.hidePrompt();
+
     this.state = GameState.PLAYING;
-    this.ball?.reset();
-    this.playerPaddle?.reset();
-    this.aiPaddle?.reset();
-
-    // Launch ball after a short delay
-    setTimeout(() => {
-      if (this.state === GameState.PLAYING) {
-        this.ball?.launch(Math.random() > 0.5);
+    const options = this.getMatchOptions();
+    this.match = createMatchState(options);
+    this.recorder = new MatchRecorder(options);
+    // The ball launches after a short delay
+    startMatch(this.match);
+    this.updateMatchStatus(this.match);
+    this.announce(getPongString('pongAnnounceGameStarted'));
+  }
+
+  /**
+   * Turn the screen reader mode's audio cues for the ball on or off.
+   */
+  private toggleAudioCues() {
+    this.audioCues = !this.audioCues;
+    saveSetting(AUDIO_CUES_SETTING, String(this.audioCues));
+    this.announce(getPongString(
+        this.audioCues ? 'pongAnnounceAudioCuesOn' :
+                         'pongAnnounceAudioCuesOff'));
+  }
+
+  /**
+   * Have screen readers read out a message.
+   */
+  private announce(message: string) {
+    if (this.liveRegion) {
+      this.liveRegion.textContent = message;
+    }
+  }
+
+  /**
+   * Describe the score for screen readers.
+   */
+  private getScoreAnnouncement(): string {
+    assert(this.match);
+    const {left, right} = this.match.scores;
+    const score = getPongString(
+        this.match.rightAi === null ? 'pongAnnounceScoreTwoPlayers' :
+                                      'pongAnnounceScore',
+        left, right);
+    switch (this.getPointType(this.match)) {
+      case PointType.SET_POINT:
+        return getPongString('pongAnnounceSetPoint', score);
+      case PointType.MATCH_POINT:
+        return getPongString('pongAnnounceMatchPoint', score);
+      default:
+        return score;
+    }
+  }
+
+  /**
+   * Whether either side is a point away from taking the set or match.
+   */
+  private getPointType(match: MatchState): PointType {
+    if (isSuddenDeath(match)) {
+      return PointType.MATCH_POINT;
+    }
+    if (match.mode !== MatchMode.STANDARD) {
+      return PointType.NORMAL;
+    }
+    const {rules, scores, sets} = match;
+    const left = getPointType(rules, scores, sets, 'left');
+    const right = getPointType(rules, scores, sets, 'right');
+    return left !== PointType.NORMAL ? left : right;
+  }
+
+  /**
+   * Show the sets won and flag set and match points.
+   */
+  private updateMatchStatus(match: MatchState) {
+    assert(this.scoreDisplay);
+    const {rules, sets} = match;
+    const showSets = match.mode === MatchMode.STANDARD && rules.bestOf > 1;
+    this.scoreDisplay.setSets(
+        showSets ? {player: sets.left, ai: sets.right} : null);
+    this.scoreDisplay.setPointType(this.getPointType(match));
+    if (isSurvivalMode(match.mode)) {
+      // Returns are counted as they happen, without a score event.
+      this.scoreDisplay.setScores(match.scores.left, 0);
+    }
+  }
+
+  /**
+   * Describe the winner of a match for screen readers.
+   */
+  private getWinnerAnnouncement(winner: Side): string {
+    assert(this.match);
+    if (this.match.rightAi === null) {
+      return getPongString(
+          winner === 'left' ? 'pongAnnouncePlayer1Wins' :
+                              'pongAnnouncePlayer2Wins');
+    }
+    return getPongString(
+        winner === 'left' ? 'pongAnnounceYouWin' : 'pongAnnounceComputerWins');
+  }
+
+  /**
+   * Keep the ball's audio cue in step with the match. It only sounds while
+   * the ball is in play.
+   */
+  private updateAudioCue() {
+    assert(this.match);
+    if (!this.ballAudioCue) {
+      return;
+    }
+
+    const ballInPlay = this.match.phase === MatchPhase.RALLY &&
+        (this.state === GameState.PLAYING ||
+         (this.state === GameState.REPLAY && !this.replayPaused));
+    if (this.audioCues && ballInPlay && !this.soundFx?.isMuted()) {
+      const ball = selectTargetBall(this.match.balls, this.match.leftPaddle) ??
+          this.match.balls[0]!;
+      this.ballAudioCue.update(
+          ball, this.match.leftPaddle, this.match.court);
+    } else {
+      this.ballAudioCue.stop();
+    }
+  }
+
+  /**
+   * Whether a match is being played (including a paused one).
+   */
+  private isMatchInProgress(): boolean {
+    return this.state === GameState.PLAYING ||
+        this.state === GameState.SCORED || this.state === GameState.PAUSED;
+  }
+
+  /**
+   * Suspend the match in progress. Also cancels a running resume countdown.
+   */
+  private pause() {
+    if (this.state !== GameState.PAUSED) {
+      this.pausedState = this.state;
+      this.state = GameState.PAUSED;
+    }
+    this.resumeCountdown = 0;
+    // Key up events are not delivered while the page is in the background.
+    this.keysPressed.clear();
+  }
+
+  /**
+   * Start the countdown back into the paused match.
+   */
+  private resume() {
+    if (this.state === GameState.PAUSED) {
+      this.resumeCountdown = RESUME_COUNTDOWN_MS;
+    }
+  }
+
+  /**
+   * Pause on switching tabs, and stop the frame loop while hidden.
+   */
+  private onVisibilityChange() {
+    if (document.hidden) {
+      this.onBlur();
+      cancelAnimationFrame(this.raqId);
+      this.updatePending = false;
+    } else {
+      // Start timing afresh so the hidden period is not simulated.
+      this.time = 0;
+      this.scheduleNextUpdate();
+    }
+  }
+
+  /**
+   * Pause when the window loses focus.
+   */
+  private onBlur() {
+    // The frame loop stops while hidden, so silence the cue here.
+    this.ballAudioCue?.stop();
+    if (this.isMatchInProgress()) {
+      this.pause();
+    } else if (this.state === GameState.REPLAY) {
+      this.replayPaused = true;
+    }
+    this.keysPressed.clear();
+  }
+
+  /**
+   * Play back a recorded match. Any match in progress is abandoned.
+   */
+  replayMatch(log: MatchLog) {
+    assert(this.scoreDisplay);
+    this.recorder = null;
+    this.replay = new MatchReplay(log);
+    this.replaySpeedIndex = REPLAY_SPEEDS.indexOf(1);
+    this.replayPaused = false;
+    this.replayDivergenceAnnounced = false;
+    this.match = this.replay.getState();
+    this.scoreDisplay.setScores(0, 0);
+    this.updateMatchStatus(this.match);
+    this.state = GameState.REPLAY;
+  }
+
+  /**
+   * Leave replay playback and return to the start screen.
+   */
+  private exitReplay() {
+    this.replay = null;
+    this.scoreDisplay?.reset();
+    this.match = this.createMatch();
+    this.updateMatchStatus(this.match);
+    this.state = GameState.WAITING;
+  }
+
+  /**
+   * Handle keys during replay playback: space pauses, left / right seek,
+   * up / down change speed and escape or R exits.
+   */
+  private onReplayKeyDown(e: KeyboardEvent) {
+    assert(this.replay);
+    const seekTicks = REPLAY_SEEK_MS / TICK_MS;
+
+    switch (e.keyCode) {
+      case KEY_CODES.SPACE:
+        this.replayPaused = !this.replayPaused;
+        break;
+      case KEY_CODES.LEFT:
+        this.seekReplay(this.replay.getTick() - seekTicks);
+        break;
+      case KEY_CODES.RIGHT:
+        this.seekReplay(this.replay.getTick() + seekTicks);
+        break;
+      case KEY_CODES.UP:
+        this.replaySpeedIndex =
+            Math.min(REPLAY_SPEEDS.length - 1, this.replaySpeedIndex + 1);
+        break;
+      case KEY_CODES.DOWN:
+        this.replaySpeedIndex = Math.max(0, this.replaySpeedIndex - 1);
+        break;
+      case KEY_CODES.ESCAPE:
+      case KEY_CODES.R:
+        this.exitReplay();
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  }
+
+  /**
+   * Jump to a tick of the replay.
+   */
+  private seekReplay(tick: number) {
+    assert(this.replay);
+    assert(this.scoreDisplay);
+    this.replay.seek(tick);
+    this.match = this.replay.getState();
+    this.scoreDisplay.setScores(
+        this.match.scores.left, this.match.scores.right);
+    this.updateMatchStatus(this.match);
+    this.announceReplayDivergence();
+  }
+
+  /**
+   * Tell the viewer once if the replay scored a point the recording does
+   * not have, e.g. because the log came from another version of the game.
+   */
+  private announceReplayDivergence() {
+    assert(this.replay);
+    if (this.replay.hasDiverged() && !this.replayDivergenceAnnounced) {
+      this.replayDivergenceAnnounced = true;
+      this.announce(getPongString('pongAnnounceReplayDiverged'));
+    }
+  }
+
+  /**
+   * Advance replay playback by a frame.
+   */
+  private updateReplay(deltaTime: number) {
+    assert(this.replay);
+    assert(this.scoreDisplay);
+
+    if (this.replayPaused) {
+      return;
+    }
+
+    this.accumulator += deltaTime * REPLAY_SPEEDS[this.replaySpeedIndex]!;
+    while (this.accumulator >= TICK_MS && !this.replay.isFinished()) {
+      this.accumulator -= TICK_MS;
+      const events = this.replay.advance();
+      this.playEventSounds(events);
+      const state = this.replay.getState();
+      for (const event of events) {
+        if (event.type === 'score') {
+          this.scoreDisplay.setPlayerScore(state.scores.left);
+          this.scoreDisplay.setAiScore(state.scores.right);
+        } else if (event.type === 'serve') {
+          // Points are cleared at the first serve of a set.
+          this.scoreDisplay.setScores(state.scores.left, state.scores.right);
+        }
       }
-    }, 500);
+      this.updateMatchStatus(state);
+    }
+    this.announceReplayDivergence();
+
+    if (this.replay.isFinished()) {
+      // Hold on the final frame until the viewer seeks or exits.
+      this.replayPaused = true;
+      this.accumulator = 0;
+    }
   }
 
   /**
@@ -401,7 +1723,7 @@ export class PongGame {
    */
   private clearCanvas() {
     assert(this.canvasCtx);
-    this.canvasCtx.fillStyle = '#f7f7f7';
+    this.canvasCtx.fillStyle = this.theme.background;
     this.canvasCtx.fillRect(0, 0, this.dimensions.width, this.dimensions.height);
   }
 
@@ -412,164 +1734,332 @@ export class PongGame {
     this.updatePending = false;
 
     const now = getTimeStamp();
-    const deltaTime = now - (this.time || now);
+    const deltaTime = Math.min(now - (this.time || now), MAX_FRAME_TIME);
     this.time = now;
 
-    this.clearCanvas();
-
-    assert(this.playerPaddle);
-    assert(this.aiPaddle);
-    assert(this.ball);
+    assert(this.match);
     assert(this.scoreDisplay);
 
-    // Handle player input
-    if (this.keysPressed.has(KEY_CODES.UP) || this.keysPressed.has(KEY_CODES.W)) {
-      this.playerPaddle.moveUp(deltaTime);
-    }
-    if (this.keysPressed.has(KEY_CODES.DOWN) || this.keysPressed.has(KEY_CODES.S)) {
-      this.playerPaddle.moveDown(deltaTime);
-    }
+    // Poll gamepads once per frame
+    this.gamepads.poll();
+    this.handleGamepadButtons();
 
-    // Update game based on state
-    if (this.state === GameState.PLAYING) {
-      this.updatePlaying(deltaTime);
-    } else if (this.state === GameState.SCORED) {
-      this.updateScored(deltaTime);
+    // Advance the simulation in fixed ticks
+    if (this.state === GameState.REPLAY) {
+      this.updateReplay(deltaTime);
+    } else if (this.state === GameState.PAUSED) {
+      this.updatePaused(deltaTime);
+    } else {
+      this.accumulator += deltaTime;
+      while (this.accumulator >= TICK_MS) {
+        this.accumulator -= TICK_MS;
+        const inputs = this.getTickInputs();
+        const events = step(this.match, inputs);
+        this.recorder?.record(inputs, events);
+        this.handleMatchEvents(events);
+      }
     }
 
+    this.updateAudioCue();
+
     // Update score display animation
     this.scoreDisplay.update(deltaTime);
 
-    // Draw everything
-    this.draw();
+    // Draw everything, interpolated between the last two ticks
+    this.canvasScaler?.applyTransform();
+    this.clearCanvas();
+    this.draw(this.accumulator / TICK_MS);
 
     // Schedule next frame
     this.scheduleNextUpdate();
   }
 
   /**
-   * Update game logic while playing.
+   * Run the resume countdown while paused.
    */
-  private updatePlaying(deltaTime: number) {
-    assert(this.ball);
-    assert(this.playerPaddle);
-    assert(this.aiPaddle);
-    assert(this.scoreDisplay);
-
-    // Update AI paddle
-    this.updateAI(deltaTime);
-
-    // Update ball and check for scoring
-    const scored = this.ball.update(deltaTime);
-
-    // Check paddle collisions
-    this.ball.checkPaddleCollision(this.playerPaddle);
-    this.ball.checkPaddleCollision(this.aiPaddle);
-
-    // Handle scoring
-    if (scored) {
-      if (scored === 'left') {
-        // AI scores (ball went past player)
-        this.scoreDisplay.setAiScore(this.scoreDisplay.getAiScore() + 1);
-      } else {
-        // Player scores (ball went past AI)
-        this.scoreDisplay.setPlayerScore(this.scoreDisplay.getPlayerScore() + 1);
+  private updatePaused(deltaTime: number) {
+    if (this.resumeCountdown > 0) {
+      this.resumeCountdown -= deltaTime;
+      if (this.resumeCountdown <= 0) {
+        this.resumeCountdown = 0;
+        this.state = this.pausedState;
       }
+    }
+  }
 
-      // Check for game over
-      if (this.scoreDisplay.getPlayerScore() >= PONG_CONFIG.WINNING_SCORE ||
-          this.scoreDisplay.getAiScore() >= PONG_CONFIG.WINNING_SCORE) {
-        this.state = GameState.GAME_OVER;
-      } else {
-        this.state = GameState.SCORED;
-        this.scoreDelayTimer = 0;
-        this.ball.reset();
+  /**
+   * Collect player input for the next tick.
+   */
+  private getTickInputs(): TickInputs {
+    return {
+      left: this.leftController?.getInput() ?? IDLE_INPUT,
+      right: this.rightController?.getInput() ?? IDLE_INPUT,
+    };
+  }
+
+  /**
+   * Update game state from the events of a simulation tick.
+   */
+  private handleMatchEvents(events: MatchEvent[]) {
+    assert(this.match);
+    assert(this.scoreDisplay);
+    this.playEventSounds(events);
+
+    for (const event of events) {
+      switch (event.type) {
+        case 'serve':
+          // Points are cleared at the first serve of a set.
+          this.scoreDisplay.setScores(
+              this.match.scores.left, this.match.scores.right);
+          this.state = GameState.PLAYING;
+          break;
+        case 'score':
+          this.scoreDisplay.setPlayerScore(this.match.scores.left);
+          this.scoreDisplay.setAiScore(this.match.scores.right);
+          if (event.rallyOver) {
+            this.state = GameState.SCORED;
+          }
+          this.announce(this.getScoreAnnouncement());
+          break;
+        case 'time-up':
+          this.announce(getPongString(
+              this.match.phase === MatchPhase.OVER ?
+                  'pongAnnounceTimeUp' :
+                  'pongAnnounceTimeUpNextPointWins'));
+          break;
+        case 'set-over':
+          this.announce(getPongString(
+              'pongAnnounceSetOver', this.getScoreAnnouncement(),
+              this.match.sets.left, this.match.sets.right));
+          break;
+        case 'power-up-collect':
+          this.announce(getPongString(
+              'pongAnnouncePowerUp',
+              getPongString(POWER_UP_NAMES[event.powerUp])));
+          break;
+        case 'match-over':
+          this.announce(
+              isSurvivalMode(this.match.mode) ?
+                  getPongString(
+                      'pongAnnounceSurvivalOver', this.match.scores.left) :
+                  getPongString(
+                      'pongAnnounceGameOver',
+                      this.getWinnerAnnouncement(event.winner),
+                      this.getScoreAnnouncement()));
+          this.state = GameState.GAME_OVER;
+          this.lastMatchResult = {
+            winner: event.winner,
+            survival: isSurvivalMode(this.match.mode),
+            twoPlayer: this.playMode === PlayMode.TWO_PLAYERS,
+            playerScore: this.match.scores.left,
+          };
+          this.lastMatchLog = this.recorder?.getLog() ?? null;
+          this.recorder = null;
+          clearSavedMatch();
+          this.onGameOver();
+          break;
       }
     }
+    if (events.length) {
+      this.updateMatchStatus(this.match);
+    }
   }
 
   /**
-   * Update AI paddle movement.
+   * Play the sounds for the events of a simulation tick.
    */
-  private updateAI(deltaTime: number) {
-    assert(this.ball);
-    assert(this.aiPaddle);
-
-    // Only move if ball is heading toward AI
-    if (this.ball.vx > 0) {
-      // Predict where ball will be when it reaches AI paddle
-      const timeToReach = (this.aiPaddle.x - this.ball.x) / this.ball.vx;
-      let predictedY = this.ball.y + this.ball.vy * timeToReach;
+  private playEventSounds(events: MatchEvent[]) {
+    assert(this.match);
+    if (!this.soundFx) {
+      return;
+    }
 
-      // Account for bounces
-      while (predictedY < 0 || predictedY > this.dimensions.height) {
-        if (predictedY < 0) {
-          predictedY = -predictedY;
-        }
-        if (predictedY > this.dimensions.height) {
-          predictedY = 2 * this.dimensions.height - predictedY;
+    for (const event of events) {
+      switch (event.type) {
+        case 'paddle-hit':
+          this.soundFx.paddleHit(event.side, event.ball.getSpeed());
+          break;
+        case 'wall-return':
+          this.soundFx.paddleHit('right', event.ball.getSpeed());
+          break;
+        case 'wall-bounce': {
+          const ball = event.ball;
+          const ballCenterX = ball.x + ball.size / 2;
+          let pan = ballCenterX / this.match.court.width * 2 - 1;
+          if (IS_RTL) {
+            pan = -pan;
+          }
+          this.soundFx.wallBounce(pan, ball.getSpeed());
+          break;
         }
+        case 'shield-hit':
+          this.soundFx.shieldHit(event.side, event.ball.getSpeed());
+          break;
+        case 'power-up-spawn':
+        case 'ball-added':
+          this.soundFx.powerUpSpawn();
+          break;
+        case 'power-up-collect':
+          this.soundFx.powerUpCollect(event.side);
+          break;
+        case 'power-up-expire':
+          this.soundFx.powerUpExpire();
+          break;
+        case 'score':
+          this.soundFx.score(event.scorer);
+          break;
+        case 'match-over':
+          // Against the computer, only the player's win is celebrated.
+          this.soundFx.matchOver(
+              this.match.rightAi === null || event.winner === 'left');
+          break;
       }
-
-      // Add some randomness to make AI beatable
-      const randomOffset = (Math.random() - 0.5) * 20;
-      predictedY += randomOffset;
-
-      this.aiPaddle.moveToward(
-          predictedY,
-          deltaTime,
-          PONG_CONFIG.AI_REACTION_SPEED);
-    } else {
-      // Ball moving away, move toward center
-      this.aiPaddle.moveToward(
-          this.dimensions.height / 2,
-          deltaTime,
-          PONG_CONFIG.AI_REACTION_SPEED * 0.5);
     }
   }
 
   /**
-   * Update after scoring (delay before ball launch).
+   * Record the result of a finished match.
    */
-  private updateScored(deltaTime: number) {
-    this.scoreDelayTimer += deltaTime;
-
-    if (this.scoreDelayTimer >= PONG_CONFIG.SCORE_DELAY) {
-      this.state = GameState.PLAYING;
-      this.ball?.launch(Math.random() > 0.5);
+  private onGameOver() {
+    assert(this.match);
+    assert(this.scoreDisplay);
+    this.showingStats = false;
+    this.lastMatchStats = this.match.stats;
+    this.lifetimeStats = addToLifetimeStats(this.lastMatchStats);
+    // Survival is always played alone, time attack best scores only count
+    // against the CPU.
+    const survival = isSurvivalMode(this.match.mode);
+    this.newBestScore = (survival || this.playMode === PlayMode.ONE_PLAYER) &&
+        saveBestScore(this.gameModePreset, this.match.scores.left);
+    if (this.playMode !== PlayMode.ONE_PLAYER || survival) {
+      return;
+    }
+    const margin =
+        this.scoreDisplay.getPlayerScore() - this.scoreDisplay.getAiScore();
+    if (margin <= 0) {
+      this.recordMatchLost = true;
     }
+    this.saveRecord(addMatchResult(this.record, margin > 0, margin));
+  }
+
+  /**
+   * Whether the current game mode keeps a best score, shown in place of the
+   * record.
+   */
+  private hasBestScore(): boolean {
+    return GAME_MODE_PRESETS[this.gameModePreset].bestScoreSetting !== null;
   }
 
   /**
    * Draw all game entities.
+   * @param alpha Progress from the previous to the current tick (0-1).
    */
-  private draw() {
+  private draw(alpha: number) {
     assert(this.canvasCtx);
-    assert(this.playerPaddle);
-    assert(this.aiPaddle);
-    assert(this.ball);
+    assert(this.match);
     assert(this.scoreDisplay);
 
+    this.canvasCtx.direction = IS_RTL ? 'rtl' : 'ltr';
+
+    // The court is mirrored in RTL, putting the player on the right. Text is
+    // drawn unmirrored.
+    this.canvasCtx.save();
+    if (IS_RTL) {
+      this.canvasCtx.translate(this.dimensions.width, 0);
+      this.canvasCtx.scale(-1, 1);
+    }
+    // Map the court onto the canvas, which differs from the court when
+    // replaying a match recorded at another size.
+    this.canvasCtx.scale(
+        this.dimensions.width / this.match.court.width,
+        this.dimensions.height / this.match.court.height);
+
     // Draw center line (dashed)
     this.drawCenterLine();
 
-    // Draw paddles
-    this.playerPaddle.draw(this.canvasCtx);
-    this.aiPaddle.draw(this.canvasCtx);
+    // Draw paddles, or the wall standing in for the right one in survival
+    this.match.leftPaddle.draw(this.canvasCtx, this.theme, alpha);
+    const wall = getSurvivalWallBounds(this.match);
+    if (wall) {
+      this.canvasCtx.fillStyle = this.theme.foreground;
+      this.canvasCtx.fillRect(wall.x, wall.y, wall.width, wall.height);
+    } else {
+      this.match.rightPaddle.draw(this.canvasCtx, this.theme, alpha);
+    }
 
-    // Draw ball
-    this.ball.draw(this.canvasCtx);
+    // Draw shields and the power-up waiting to be collected
+    for (const side of ['left', 'right'] as Side[]) {
+      const paddle =
+          side === 'left' ? this.match.leftPaddle : this.match.rightPaddle;
+      const bounds = getShieldBounds(this.match, side);
+      if (bounds) {
+        drawShield(
+            this.canvasCtx, bounds, paddle.getShieldTicksLeft(), this.theme);
+      }
+    }
+    if (this.match.powerUp) {
+      drawPowerUp(
+          this.canvasCtx, this.match.powerUp, this.theme, getTimeStamp());
+    }
 
-    // Draw scores
+    // Draw balls
+    for (const ball of this.match.balls) {
+      ball.draw(this.canvasCtx, this.theme, alpha);
+    }
+    this.canvasCtx.restore();
+
+    // Draw scores, and the time left in time attack
+    this.scoreDisplay.setSolo(isSurvivalMode(this.match.mode));
+    this.scoreDisplay.setTimeLeft(
+        this.match.mode === MatchMode.TIME_ATTACK ?
+            this.match.timeLeftTicks * TICK_MS :
+            null);
     this.scoreDisplay.draw();
 
+    if (this.state === GameState.REPLAY) {
+      assert(this.replay);
+      this.scoreDisplay.drawReplayStatus(
+          this.replay.getTick() / this.replay.getLength(),
+          REPLAY_SPEEDS[this.replaySpeedIndex]!, this.replayPaused,
+          this.replay.hasDiverged());
+      return;
+    }
+
+    if (this.state === GameState.PAUSED) {
+      this.scoreDisplay.drawPaused(
+          this.resumeCountdown > 0 ? Math.ceil(this.resumeCountdown / 1000) :
+                                     null);
+      return;
+    }
+
+    if (this.state === GameState.GAME_OVER && this.showingStats &&
+        this.lastMatchStats) {
+      this.scoreDisplay.drawStats(
+          this.getStatsRows(this.lastMatchStats), isStorageAvailable());
+      return;
+    }
+
+    if (this.hasBestScore()) {
+      this.scoreDisplay.drawBestScore(
+          loadBestScore(this.gameModePreset),
+          this.newBestScore && this.state === GameState.GAME_OVER);
+    } else {
+      this.scoreDisplay.drawRecord();
+    }
+
     // Draw state-specific messages
+    const result = this.lastMatchResult;
     if (this.state === GameState.WAITING) {
       this.scoreDisplay.drawStartMessage();
-    } else if (this.state === GameState.GAME_OVER) {
-      const playerWon =
-          this.scoreDisplay.getPlayerScore() >= PONG_CONFIG.WINNING_SCORE;
-      this.scoreDisplay.drawGameOver(playerWon);
+      this.scoreDisplay.drawMenu(this.getMenuItems());
+    } else if (this.state === GameState.GAME_OVER && result) {
+      if (result.survival) {
+        this.scoreDisplay.drawSurvivalOver(result.playerScore);
+      } else {
+        this.scoreDisplay.drawGameOver(
+            result.winner === 'left', result.twoPlayer);
+      }
+      this.scoreDisplay.drawMenu(this.getMenuItems());
     }
   }
 
@@ -580,14 +2070,15 @@ export class PongGame {
     assert(this.canvasCtx);
 
     this.canvasCtx.save();
-    this.canvasCtx.strokeStyle = '#535353';
-    this.canvasCtx.lineWidth = 2;
+    this.canvasCtx.strokeStyle = this.theme.foreground;
+    this.canvasCtx.lineWidth = this.theme.lineWidth;
     this.canvasCtx.setLineDash([10, 10]);
 
-    const centerX = this.dimensions.width / 2;
+    assert(this.match);
+    const centerX = this.match.court.width / 2;
     this.canvasCtx.beginPath();
     this.canvasCtx.moveTo(centerX, 0);
-    this.canvasCtx.lineTo(centerX, this.dimensions.height);
+    this.canvasCtx.lineTo(centerX, this.match.court.height);
     this.canvasCtx.stroke();
 
     this.canvasCtx.restore();
@@ -3,6 +3,34 @@
 // found in the LICENSE file.
 
 import {PONG_CONFIG} from './constants.js';
+import type {RenderTheme} from './render_theme.js';
+import {TimedEffect} from './timed_effect.js';
+
+/**
+ * Momentum based paddle movement. Input accelerates the paddle rather than
+ * setting its speed, so it takes time to get going and to stop.
+ */
+export interface PaddlePhysics {
+  // Speed gained per tick at full input, in px per tick.
+  acceleration: number;
+  // Top speed in px per tick.
+  maxSpeed: number;
+  // Fraction of its speed the paddle keeps each tick without input.
+  friction: number;
+  // Fraction of its speed the paddle keeps when it bounces off a wall.
+  wallBounce: number;
+}
+
+export const MOMENTUM_PADDLE_PHYSICS: PaddlePhysics = {
+  acceleration: PONG_CONFIG.PADDLE_ACCELERATION,
+  maxSpeed: PONG_CONFIG.PADDLE_SPEED * PONG_CONFIG.PADDLE_MAX_SPEED_SCALE,
+  friction: PONG_CONFIG.PADDLE_FRICTION,
+  wallBounce: PONG_CONFIG.PADDLE_WALL_BOUNCE,
+};
+
+// How far ahead, in ticks, a paddle with momentum aims to reach its target.
+// Lower values steer harder.
+const STEERING_TICKS: number = 6;
 
 /**
  * Represents a paddle in the Pong game.
@@ -13,64 +41,232 @@ export class Paddle {
   width: number;
   height: number;
   speed: number;
+  // Momentum based movement, null to move at a constant speed and stop
+  // instantly.
+  physics: PaddlePhysics | null;
+  // Current speed in px per tick with momentum, positive downward.
+  private velocity: number = 0;
+  // Position at the start of the current tick, for interpolated drawing.
+  private prevY: number;
   private canvasHeight: number;
+  // Power-up effects.
+  private growEffect: TimedEffect = new TimedEffect();
+  private shrinkEffect: TimedEffect = new TimedEffect();
+  private shieldEffect: TimedEffect = new TimedEffect();
 
-  constructor(x: number, canvasHeight: number) {
+  constructor(
+      x: number, canvasHeight: number, physics: PaddlePhysics | null = null) {
     this.x = x;
+    this.physics = physics;
     this.canvasHeight = canvasHeight;
     this.width = PONG_CONFIG.PADDLE_WIDTH;
     this.height = PONG_CONFIG.PADDLE_HEIGHT;
     this.speed = PONG_CONFIG.PADDLE_SPEED;
     // Center paddle vertically
     this.y = (canvasHeight - this.height) / 2;
+    this.prevY = this.y;
   }
 
   /**
-   * Move paddle up.
+   * Remember the current position as the start of a new tick.
    */
-  moveUp(deltaTime: number) {
-    const movement = this.speed * (deltaTime / 16.67); // Normalize to ~60fps
-    this.y = Math.max(0, this.y - movement);
+  savePosition() {
+    this.prevY = this.y;
   }
 
   /**
-   * Move paddle down.
+   * Movement during the current tick in px, positive downward.
    */
-  moveDown(deltaTime: number) {
-    const movement = this.speed * (deltaTime / 16.67);
-    this.y = Math.min(this.canvasHeight - this.height, this.y + movement);
+  getVelocity(): number {
+    return this.y - this.prevY;
+  }
+
+  /**
+   * Move paddle for one tick.
+   * @param axis -1 (full speed up) to 1 (full speed down).
+   */
+  move(axis: number) {
+    if (this.physics) {
+      this.accelerate(this.physics, axis);
+      return;
+    }
+    this.setY(this.y + this.speed * axis);
+  }
+
+  /**
+   * Move with momentum for one tick.
+   * @param axis -1 (full acceleration up) to 1 (full acceleration down).
+   */
+  private accelerate(physics: PaddlePhysics, axis: number) {
+    const {acceleration, maxSpeed, friction, wallBounce} = physics;
+    if (axis === 0) {
+      this.velocity *= friction;
+    } else {
+      this.velocity += axis * acceleration;
+    }
+    this.velocity = Math.max(-maxSpeed, Math.min(maxSpeed, this.velocity));
+
+    // Bounce softly off the walls rather than stopping dead.
+    const maxY = this.canvasHeight - this.height;
+    const y = this.y + this.velocity;
+    if (y < 0 || y > maxY) {
+      this.velocity = -this.velocity * wallBounce;
+    }
+    this.setY(y);
+  }
+
+  /**
+   * Get the input that moves a paddle with momentum toward a target,
+   * slowing in time to stop there.
+   * @param maxSpeedFactor Fraction of the top speed to move at.
+   */
+  private steer(
+      physics: PaddlePhysics, targetY: number,
+      maxSpeedFactor: number): number {
+    const {acceleration, maxSpeed} = physics;
+    const diff = targetY - (this.y + this.height / 2);
+    const limit = maxSpeed * maxSpeedFactor;
+    const desired = Math.max(-limit, Math.min(limit, diff / STEERING_TICKS));
+    return Math.max(-1, Math.min(1, (desired - this.velocity) / acceleration));
   }
 
   /**
    * Move paddle toward a target Y position (for AI).
+   * @param speedFactor Fraction of the paddle speed to move at.
    */
-  moveToward(targetY: number, deltaTime: number, reactionSpeed: number) {
+  moveToward(targetY: number, speedFactor: number) {
+    if (this.physics) {
+      this.accelerate(
+          this.physics, this.steer(this.physics, targetY, speedFactor));
+      return;
+    }
     const paddleCenter = this.y + this.height / 2;
     const diff = targetY - paddleCenter;
-    const movement = this.speed * reactionSpeed * (deltaTime / 16.67);
+    const movement = this.speed * speedFactor;
 
     if (Math.abs(diff) > movement) {
-      if (diff > 0) {
-        this.moveDown(deltaTime * reactionSpeed);
-      } else {
-        this.moveUp(deltaTime * reactionSpeed);
-      }
+      this.move(diff > 0 ? speedFactor : -speedFactor);
+    }
+  }
+
+  /**
+   * Center the paddle on a Y position, e.g. under the player's finger. With
+   * momentum the paddle steers there at full speed instead.
+   */
+  moveTo(targetY: number) {
+    if (this.physics) {
+      this.moveToward(targetY, 1);
+      return;
     }
+    this.setY(targetY - this.height / 2);
+  }
+
+  private setY(y: number) {
+    this.y = Math.max(0, Math.min(this.canvasHeight - this.height, y));
+  }
+
+  /**
+   * Make the paddle taller for a number of ticks.
+   */
+  grow(ticks: number) {
+    this.growEffect.start(ticks);
+    this.updateHeight();
+  }
+
+  /**
+   * Make the paddle shorter for a number of ticks.
+   */
+  shrink(ticks: number) {
+    this.shrinkEffect.start(ticks);
+    this.updateHeight();
+  }
+
+  /**
+   * Guard the goal behind the paddle for a number of ticks.
+   */
+  raiseShield(ticks: number) {
+    this.shieldEffect.start(ticks);
+  }
+
+  hasShield(): boolean {
+    return this.shieldEffect.isActive();
+  }
+
+  getShieldTicksLeft(): number {
+    return this.shieldEffect.getTicksLeft();
+  }
+
+  /**
+   * Count down timed effects by one tick.
+   * @return Whether an effect ended.
+   */
+  updateEffects(): boolean {
+    const grewBack = this.growEffect.tick();
+    const shrankBack = this.shrinkEffect.tick();
+    const shieldDropped = this.shieldEffect.tick();
+    if (grewBack || shrankBack) {
+      this.updateHeight();
+    }
+    return grewBack || shrankBack || shieldDropped;
+  }
+
+  /**
+   * Apply the size effects, keeping the paddle centered where it was.
+   */
+  private updateHeight() {
+    let height = PONG_CONFIG.PADDLE_HEIGHT;
+    if (this.growEffect.isActive()) {
+      height *= PONG_CONFIG.POWER_UP_GROW_SCALE;
+    }
+    if (this.shrinkEffect.isActive()) {
+      height *= PONG_CONFIG.POWER_UP_SHRINK_SCALE;
+    }
+
+    const centerY = this.y + this.height / 2;
+    this.height = height;
+    this.setY(centerY - height / 2);
   }
 
   /**
    * Draw the paddle on the canvas.
+   * @param alpha Progress through the current tick (0-1), used to
+   *     interpolate between the previous and current position.
+   */
+  draw(
+      ctx: CanvasRenderingContext2D, theme: RenderTheme, alpha: number = 1) {
+    const y = this.prevY + (this.y - this.prevY) * alpha;
+    ctx.fillStyle = theme.foreground;
+    ctx.fillRect(this.x, y, this.width, this.height);
+  }
+
+  /**
+   * Move the paddle into a resized court, keeping its center and momentum in
+   * proportion to the court height.
+   * @param x Left edge of the paddle in the resized court.
    */
-  draw(ctx: CanvasRenderingContext2D) {
-    ctx.fillStyle = '#535353';
-    ctx.fillRect(this.x, this.y, this.width, this.height);
+  resize(x: number, canvasHeight: number) {
+    const scale = canvasHeight / this.canvasHeight;
+    const maxY = canvasHeight - this.height;
+    const scaleY = (y: number) => Math.max(
+        0, Math.min(maxY, (y + this.height / 2) * scale - this.height / 2));
+    this.x = x;
+    this.canvasHeight = canvasHeight;
+    this.velocity *= scale;
+    this.y = scaleY(this.y);
+    this.prevY = scaleY(this.prevY);
   }
 
   /**
    * Reset paddle to center position.
    */
   reset() {
+    this.growEffect.cancel();
+    this.shrinkEffect.cancel();
+    this.shieldEffect.cancel();
+    this.height = PONG_CONFIG.PADDLE_HEIGHT;
+    this.velocity = 0;
     this.y = (this.canvasHeight - this.height) / 2;
+    this.prevY = this.y;
   }
 
   /**
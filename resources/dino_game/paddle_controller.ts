@@ -0,0 +1,66 @@
+// Copyright 2025 The Chromium Authors
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import {IDLE_INPUT} from './simulation.js';
+import type {PaddleInput} from './simulation.js';
+
+/**
+ * Source of player input for a paddle. Paddles without a controller are
+ * driven by the CPU inside the simulation.
+ */
+export interface PaddleController {
+  /**
+   * Sample the input for the next simulation tick.
+   */
+  getInput(): PaddleInput;
+}
+
+/**
+ * Moves a paddle while any of its up / down keys are held.
+ */
+export class KeyboardController implements PaddleController {
+  private keysPressed: ReadonlySet<number>;
+  private upKeys: number[];
+  private downKeys: number[];
+
+  constructor(
+      keysPressed: ReadonlySet<number>, upKeys: number[], downKeys: number[]) {
+    this.keysPressed = keysPressed;
+    this.upKeys = upKeys;
+    this.downKeys = downKeys;
+  }
+
+  getInput(): PaddleInput {
+    let axis = 0;
+    if (this.upKeys.some(key => this.keysPressed.has(key))) {
+      axis -= 1;
+    }
+    if (this.downKeys.some(key => this.keysPressed.has(key))) {
+      axis += 1;
+    }
+    return {axis, targetY: null};
+  }
+}
+
+/**
+ * Merges several input sources for one paddle, e.g. the keyboard and a
+ * gamepad. The first source with any input wins.
+ */
+export class CombinedController implements PaddleController {
+  private controllers: PaddleController[];
+
+  constructor(controllers: PaddleController[]) {
+    this.controllers = controllers;
+  }
+
+  getInput(): PaddleInput {
+    for (const controller of this.controllers) {
+      const input = controller.getInput();
+      if (input.axis !== 0 || input.targetY !== null) {
+        return input;
+      }
+    }
+    return IDLE_INPUT;
+  }
+}
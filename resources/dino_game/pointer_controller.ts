@@ -0,0 +1,66 @@
+// Copyright 2025 The Chromium Authors
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import type {PaddleController} from './paddle_controller.js';
+import type {PaddleInput} from './simulation.js';
+
+/**
+ * Positions a paddle under a mouse, pen or touch pointer. The pointer events
+ * themselves are handled by the game, which feeds court coordinates in here.
+ */
+export class PointerController implements PaddleController {
+  // Court position to center the paddle on, null when the pointer is not
+  // controlling the paddle.
+  private targetY: number | null = null;
+  private courtHeight: number;
+
+  constructor(courtHeight: number) {
+    this.courtHeight = courtHeight;
+  }
+
+  /**
+   * Update the court height, e.g. when the court is expanded.
+   */
+  setCourtHeight(courtHeight: number) {
+    this.courtHeight = courtHeight;
+    if (this.targetY !== null) {
+      this.targetY = this.clamp(this.targetY);
+    }
+  }
+
+  /**
+   * Follow an absolute pointer position.
+   */
+  setTarget(courtY: number) {
+    this.targetY = this.clamp(courtY);
+  }
+
+  /**
+   * Move the target by a relative amount, used while the pointer is locked.
+   * @param fromY Where to start from if there is no target yet, normally the
+   *     paddle's current center.
+   */
+  moveTarget(deltaY: number, fromY: number) {
+    this.targetY = this.clamp((this.targetY ?? fromY) + deltaY);
+  }
+
+  /**
+   * Stop controlling the paddle, handing it back to other input sources.
+   */
+  release() {
+    this.targetY = null;
+  }
+
+  isActive(): boolean {
+    return this.targetY !== null;
+  }
+
+  private clamp(y: number): number {
+    return Math.max(0, Math.min(this.courtHeight, y));
+  }
+
+  getInput(): PaddleInput {
+    return {axis: 0, targetY: this.targetY};
+  }
+}
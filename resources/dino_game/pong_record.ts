@@ -0,0 +1,114 @@
+// Copyright 2025 The Chromium Authors
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+/**
+ * Persistent Pong achievements, synced with the browser through the
+ * easter egg high score bridge.
+ */
+export interface PongRecord {
+  // Most consecutive wins against the CPU.
+  longestStreak: number;
+  // Consecutive wins against the CPU since the last loss.
+  currentStreak: number;
+  // Largest point difference in a won match.
+  bestMargin: number;
+  // Total matches won against the CPU.
+  totalWins: number;
+}
+
+/**
+ * The browser stores the high score as a 32-bit int, so each field is packed
+ * into a fixed number of decimal digits and clamped to fit.
+ */
+enum Packing {
+  MARGIN_BASE = 1,
+  CURRENT_STREAK_BASE = 100,
+  LONGEST_STREAK_BASE = 10000,
+  TOTAL_WINS_BASE = 1000000,
+  MAX_TWO_DIGITS = 99,
+  MAX_TOTAL_WINS = 2000,
+}
+
+export const EMPTY_PONG_RECORD: PongRecord = {
+  longestStreak: 0,
+  currentStreak: 0,
+  bestMargin: 0,
+  totalWins: 0,
+};
+
+function clamp(value: number, max: number): number {
+  return Math.max(0, Math.min(max, Math.floor(value)));
+}
+
+/**
+ * Pack a record into a single number for `updateEasterEggHighScore`.
+ */
+export function encodePongRecord(record: PongRecord): number {
+  return clamp(record.totalWins, Packing.MAX_TOTAL_WINS) *
+      Packing.TOTAL_WINS_BASE +
+      clamp(record.longestStreak, Packing.MAX_TWO_DIGITS) *
+      Packing.LONGEST_STREAK_BASE +
+      clamp(record.currentStreak, Packing.MAX_TWO_DIGITS) *
+      Packing.CURRENT_STREAK_BASE +
+      clamp(record.bestMargin, Packing.MAX_TWO_DIGITS) * Packing.MARGIN_BASE;
+}
+
+/**
+ * Unpack a value received from `initializeEasterEggHighScore`.
+ */
+export function decodePongRecord(value: number): PongRecord {
+  const packed = Math.max(0, Math.floor(value)) || 0;
+  const digitsAt = (base: number) =>
+      Math.floor(packed / base) % (Packing.MAX_TWO_DIGITS + 1);
+  return {
+    longestStreak: digitsAt(Packing.LONGEST_STREAK_BASE),
+    currentStreak: digitsAt(Packing.CURRENT_STREAK_BASE),
+    bestMargin: digitsAt(Packing.MARGIN_BASE),
+    totalWins: Math.min(
+        Packing.MAX_TOTAL_WINS, Math.floor(packed / Packing.TOTAL_WINS_BASE)),
+  };
+}
+
+/**
+ * Combine the stored record with the one accumulated on this page before the
+ * stored record arrived, i.e. starting from `EMPTY_PONG_RECORD`. Wins on this
+ * page add to the stored ones, and carry on the stored streak unless a match
+ * was lost here.
+ * @param lostOnPage Whether a match was lost on this page.
+ */
+export function mergePongRecords(
+    stored: PongRecord, page: PongRecord, lostOnPage: boolean): PongRecord {
+  const currentStreak = lostOnPage ?
+      page.currentStreak :
+      stored.currentStreak + page.currentStreak;
+  return {
+    longestStreak:
+        Math.max(stored.longestStreak, page.longestStreak, currentStreak),
+    currentStreak,
+    bestMargin: Math.max(stored.bestMargin, page.bestMargin),
+    totalWins: stored.totalWins + page.totalWins,
+  };
+}
+
+/**
+ * Return the record updated with the result of a match against the CPU.
+ * @param margin Final point difference, from the player's perspective.
+ */
+export function addMatchResult(
+    record: PongRecord, playerWon: boolean, margin: number): PongRecord {
+  if (!playerWon) {
+    return {...record, currentStreak: 0};
+  }
+  const currentStreak = record.currentStreak + 1;
+  return {
+    longestStreak: Math.max(record.longestStreak, currentStreak),
+    currentStreak,
+    bestMargin: Math.max(record.bestMargin, margin),
+    totalWins: record.totalWins + 1,
+  };
+}
+
+export function isSamePongRecord(a: PongRecord, b: PongRecord): boolean {
+  return encodePongRecord(a) === encodePongRecord(b);
+}
@@ -0,0 +1,75 @@
+// Copyright 2025 The Chromium Authors
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+const STORAGE_KEY_PREFIX: string = 'pong-';
+
+// Settings saved while storage is unavailable. They only last for this page.
+const pageSettings: Map<string, string> = new Map();
+
+let storageAvailable: boolean|null = null;
+
+/**
+ * Whether saved settings outlive the page. Network error pages are committed
+ * in an opaque origin, where `localStorage` throws, so anything saved there
+ * is gone once the page is reloaded.
+ */
+export function isStorageAvailable(): boolean {
+  if (storageAvailable === null) {
+    try {
+      const key = STORAGE_KEY_PREFIX + 'storage-check';
+      window.localStorage.setItem(key, '');
+      window.localStorage.removeItem(key);
+      storageAvailable = true;
+    } catch (e) {
+      storageAvailable = false;
+    }
+  }
+  return storageAvailable;
+}
+
+/**
+ * Read a setting saved by a previous session, or earlier on this page if
+ * storage is unavailable.
+ */
+export function loadSetting(name: string): string|null {
+  if (!isStorageAvailable()) {
+    return pageSettings.get(name) ?? null;
+  }
+  try {
+    return window.localStorage.getItem(STORAGE_KEY_PREFIX + name);
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Save a setting for future sessions, or only for this page if storage is
+ * unavailable.
+ */
+export function saveSetting(name: string, value: string) {
+  if (!isStorageAvailable()) {
+    pageSettings.set(name, value);
+    return;
+  }
+  try {
+    window.localStorage.setItem(STORAGE_KEY_PREFIX + name, value);
+  } catch (e) {
+    // Storage is full, the setting is not saved.
+  }
+}
+
+/**
+ * Forget a saved setting.
+ */
+export function removeSetting(name: string) {
+  if (!isStorageAvailable()) {
+    pageSettings.delete(name);
+    return;
+  }
+  try {
+    window.localStorage.removeItem(STORAGE_KEY_PREFIX + name);
+  } catch (e) {
+    // Storage is not available, nothing was saved.
+  }
+}
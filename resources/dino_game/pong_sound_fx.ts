@@ -0,0 +1,202 @@
+// Copyright 2025 The Chromium Authors
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import {IS_RTL, PONG_CONFIG} from './constants.js';
+import {GeneratedSoundFx} from './generated_sound_fx.js';
+import type {GeneratedSoundFxProvider} from './generated_sound_fx.js';
+import {loadSetting, saveSetting} from './pong_settings.js';
+import type {Side} from './simulation.js';
+
+const MUTED_SETTING: string = 'muted';
+
+// Template holding the <audio> elements of the bundled sounds.
+const AUDIO_RESOURCE_TEMPLATE_ID: string = 'audio-resources';
+
+/**
+ * Bundled sound files, by element id in the audio resource template.
+ */
+enum SoundId {
+  PADDLE_HIT = 'offline-sound-press',
+  SCORE = 'offline-sound-reached',
+  LOSE = 'offline-sound-hit',
+}
+
+// Stereo position of sounds coming from either side of the court. The court
+// is drawn mirrored in RTL.
+const SIDE_PAN: Record<Side, number> = {
+  left: IS_RTL ? 0.8 : -0.8,
+  right: IS_RTL ? -0.8 : 0.8,
+};
+
+/**
+ * Pong sound effects. Plays the bundled mp3s where they have loaded, and
+ * generated tones for everything else, so the game is never silent because
+ * a file failed to decode.
+ */
+export class PongSoundFx implements GeneratedSoundFxProvider {
+  private soundFx: GeneratedSoundFx;
+  private buffers: Map<SoundId, AudioBuffer> = new Map();
+  private muted: boolean = loadSetting(MUTED_SETTING) === 'true';
+
+  constructor() {
+    this.soundFx = new GeneratedSoundFx();
+    this.loadSounds();
+  }
+
+  /**
+   * Decode the sounds bundled with the page.
+   */
+  private loadSounds() {
+    const template = document.querySelector<HTMLTemplateElement>(
+        `#${AUDIO_RESOURCE_TEMPLATE_ID}`);
+    if (!template) {
+      return;
+    }
+
+    for (const id of Object.values(SoundId)) {
+      const audio =
+          template.content.querySelector<HTMLAudioElement>(`#${id}`);
+      if (!audio) {
+        continue;
+      }
+      fetch(audio.src)
+          .then(response => response.arrayBuffer())
+          .then(data => this.soundFx.decodeAudio(data))
+          .then(buffer => this.buffers.set(id, buffer))
+          .catch(() => {
+            // Fall back to generated tones for this sound.
+          });
+    }
+  }
+
+  getGeneratedSoundFx(): GeneratedSoundFx {
+    return this.soundFx;
+  }
+
+  /**
+   * Let audio play once the user has interacted with the page.
+   */
+  resume() {
+    if (!this.muted) {
+      this.soundFx.resume();
+    }
+  }
+
+  isMuted(): boolean {
+    return this.muted;
+  }
+
+  /**
+   * Toggle sound on and off, remembering the choice for future sessions.
+   */
+  toggleMuted() {
+    this.muted = !this.muted;
+    saveSetting(MUTED_SETTING, String(this.muted));
+    this.resume();
+  }
+
+  /**
+   * Pitch multiplier for a ball speed, rising from 1 at the serve speed.
+   */
+  private getPitch(ballSpeed: number): number {
+    return Math.max(1, ballSpeed / PONG_CONFIG.BALL_SPEED);
+  }
+
+  /**
+   * Ball hit the paddle on `side`.
+   * @param ballSpeed Speed of the ball after the hit, in px per tick.
+   */
+  paddleHit(side: Side, ballSpeed: number) {
+    if (this.muted) {
+      return;
+    }
+    const buffer = this.buffers.get(SoundId.PADDLE_HIT);
+    const pitch = this.getPitch(ballSpeed);
+    if (buffer) {
+      this.soundFx.playBuffer(buffer, SIDE_PAN[side], pitch);
+    } else {
+      this.soundFx.wallBounce(SIDE_PAN[side], pitch * 2);
+    }
+  }
+
+  /**
+   * Ball bounced off the top or bottom wall.
+   * @param pan Stereo position of the bounce, -1 (left) to 1 (right).
+   */
+  wallBounce(pan: number, ballSpeed: number) {
+    if (!this.muted) {
+      this.soundFx.wallBounce(pan, this.getPitch(ballSpeed));
+    }
+  }
+
+  /**
+   * Ball bounced off the shield guarding `side`'s goal.
+   */
+  shieldHit(side: Side, ballSpeed: number) {
+    if (!this.muted) {
+      this.soundFx.wallBounce(SIDE_PAN[side], this.getPitch(ballSpeed) / 2);
+    }
+  }
+
+  /**
+   * A power-up appeared on the court.
+   */
+  powerUpSpawn() {
+    if (!this.muted) {
+      this.soundFx.powerUpSpawn();
+    }
+  }
+
+  /**
+   * A power-up was collected by `side`.
+   */
+  powerUpCollect(side: Side) {
+    if (!this.muted) {
+      this.soundFx.powerUpCollect(SIDE_PAN[side]);
+    }
+  }
+
+  /**
+   * A power-up effect wore off.
+   */
+  powerUpExpire() {
+    if (!this.muted) {
+      this.soundFx.powerDown();
+    }
+  }
+
+  /**
+   * A point was scored by `scorer`.
+   */
+  score(scorer: Side) {
+    if (this.muted) {
+      return;
+    }
+    const buffer = this.buffers.get(SoundId.SCORE);
+    if (buffer) {
+      this.soundFx.playBuffer(buffer, SIDE_PAN[scorer]);
+    } else {
+      this.soundFx.collect();
+    }
+  }
+
+  /**
+   * The match was won, or lost against the computer.
+   */
+  matchOver(won: boolean) {
+    if (this.muted) {
+      return;
+    }
+    if (won) {
+      this.soundFx.win();
+      return;
+    }
+    const buffer = this.buffers.get(SoundId.LOSE);
+    if (buffer) {
+      this.soundFx.playBuffer(buffer);
+    } else {
+      this.soundFx.lose();
+    }
+  }
+}
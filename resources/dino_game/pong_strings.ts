@@ -0,0 +1,154 @@
+// Copyright 2025 The Chromium Authors
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import {loadTimeData} from 'chrome://resources/js/load_time_data.js';
+
+/**
+ * English text of each Pong string, used when the page's load time data has
+ * no translation. `$1` to `$9` are placeholders for `getPongString`'s
+ * arguments.
+ */
+const FALLBACK_STRINGS = {
+  // Container and instructions
+  pongTitle: 'Pong Game',
+  pongAriaLabel: 'Pong Game - Press Space to start, or A to turn on audio ' +
+      'cues for the ball',
+  pongInstructions: 'Press space to start. Use arrow keys to control the ' +
+      'paddle, or press 2 for a two player game (W/S and arrow keys).',
+  pongExpand: 'Expand court (F)',
+  pongCollapse: 'Exit expanded court (F)',
+
+  // Prompts below the game
+  pongBackOnline: 'You\'re back online \u2014 finish match or reload?',
+  pongFinishMatch: 'Finish match',
+  pongReload: 'Reload',
+  pongResumePrompt: 'You have an unfinished match.',
+  pongResumeMatch: 'Resume',
+  pongDiscardMatch: 'Discard',
+
+  // Canvas messages
+  pongStart: 'Press SPACE to start',
+  pongPlayAgain: 'Press SPACE to play again',
+  pongYouWin: 'YOU WIN!',
+  pongCpuWins: 'CPU WINS',
+  pongPlayer1Wins: 'PLAYER 1 WINS',
+  pongPlayer2Wins: 'PLAYER 2 WINS',
+  pongPaused: 'PAUSED',
+  pongResumeHint: 'Press P to resume',
+  pongReplay: 'REPLAY $1x',
+  pongReplayPaused: 'REPLAY PAUSED',
+  pongReplayDiverged: 'OUT OF SYNC WITH THE RECORDING',
+  pongReplayControls:
+      'SPACE pause   \u2190 \u2192 seek   \u2191 \u2193 speed   ESC exit',
+  pongRecord: 'STREAK $1   MARGIN $2   WINS $3',
+  pongRecordResetPrompt: 'CLICK AGAIN TO RESET',
+  pongSets: 'SETS $1 - $2',
+  pongSetPoint: 'SET POINT',
+  pongMatchPoint: 'MATCH POINT',
+  pongSurvivalOver: '$1 RETURNS',
+  pongBest: 'BEST $1',
+  pongNewBest: 'NEW BEST $1',
+
+  // Start and game over menu
+  pongMenuOnePlayer: '[1] 1 PLAYER',
+  pongMenuTwoPlayers: '[2] 2 PLAYERS',
+  pongMenuDifficulty: '[D] CPU: $1',
+  pongMenuMode: '[T] $1',
+  pongMenuRules: '[G] $1',
+  pongMenuSoundOn: '[M] SOUND: ON',
+  pongMenuSoundOff: '[M] SOUND: OFF',
+  pongMenuAudioCuesOn: '[A] AUDIO CUES: ON',
+  pongMenuAudioCuesOff: '[A] AUDIO CUES: OFF',
+  pongMenuBallNormal: '[L] BALL: NORMAL',
+  pongMenuBallLarge: '[L] BALL: LARGE',
+  pongMenuPowerUpsOn: '[U] POWER-UPS: ON',
+  pongMenuPowerUpsOff: '[U] POWER-UPS: OFF',
+  pongMenuChaosOn: '[C] CHAOS: ON',
+  pongMenuChaosOff: '[C] CHAOS: OFF',
+  pongMenuInertiaOn: '[I] INERTIA: ON',
+  pongMenuInertiaOff: '[I] INERTIA: OFF',
+  pongMenuReplay: '[R] REPLAY',
+  pongMenuStats: '[V] STATS',
+  pongMenuMore: '[N] MORE',
+  pongDifficultyEasy: 'EASY',
+  pongDifficultyNormal: 'NORMAL',
+  pongDifficultyHard: 'HARD',
+  pongDifficultyInsane: 'INSANE',
+  pongModeClassic: 'CLASSIC',
+  pongModeTimeAttack60: '60 SECONDS',
+  pongModeTimeAttack120: '120 SECONDS',
+  pongModeSurvivalWall: 'SURVIVAL: WALL',
+  pongModeSurvivalCpu: 'SURVIVAL: CPU',
+  pongRulesElevenPoints: '11 POINTS',
+  pongRulesTwentyOnePoints: '21 POINTS',
+  pongRulesBestOfThree: 'BEST OF 3 SETS',
+  pongRulesBestOfFive: 'BEST OF 5 SETS',
+
+  // Post-game stats panel
+  pongStatsThisMatch: 'THIS MATCH',
+  pongStatsAllTime: 'ALL TIME',
+  pongStatsTimePlayed: 'Time played',
+  pongStatsHits: 'Hits',
+  pongStatsLongestRally: 'Longest rally',
+  pongStatsEdgeHits: 'Edge shots',
+  pongStatsAverageSpeed: 'Average ball speed',
+  pongStatsTopSpeed: 'Top ball speed',
+  pongStatsSpeed: '$1 px/s',
+  pongStatsHint: 'Press V to close',
+
+  // Power-up names
+  pongPowerUpBigPaddle: 'Bigger paddle',
+  pongPowerUpShrinkOpponent: 'Shrink opponent',
+  pongPowerUpMultiball: 'Multiball',
+  pongPowerUpSlowBall: 'Slow ball',
+  pongPowerUpShield: 'Shield',
+
+  // Screen reader announcements
+  pongAnnounceGameStarted: 'Game started',
+  pongAnnounceMatchResumed: 'Match resumed. Press P to continue',
+  pongAnnounceScore: 'You $1, computer $2',
+  pongAnnounceScoreTwoPlayers: 'Player 1 $1, Player 2 $2',
+  pongAnnounceYouWin: 'You win',
+  pongAnnounceComputerWins: 'Computer wins',
+  pongAnnouncePlayer1Wins: 'Player 1 wins',
+  pongAnnouncePlayer2Wins: 'Player 2 wins',
+  pongAnnounceGameOver: '$1. $2. Press space to play again',
+  pongAnnounceStats: 'Match stats. $1',
+  pongAnnounceSetPoint: '$1. Set point',
+  pongAnnounceMatchPoint: '$1. Match point',
+  pongAnnounceSetOver: '$1. Set over, sets $2 to $3',
+  pongAnnounceTimeUp: 'Time up',
+  pongAnnounceTimeUpNextPointWins: 'Time up. Next point wins',
+  pongAnnounceSurvivalOver:
+      'Game over. $1 returns. Press space to play again',
+  pongAnnounceSoundOn: 'Sound on',
+  pongAnnounceSoundOff: 'Sound off',
+  pongAnnounceAudioCuesOn: 'Audio cues on',
+  pongAnnounceAudioCuesOff: 'Audio cues off',
+  pongAnnouncePowerUpsOn: 'Power-ups on',
+  pongAnnouncePowerUpsOff: 'Power-ups off',
+  pongAnnouncePowerUp: 'Power-up: $1',
+  pongAnnounceChaosOn: 'Chaos mode on',
+  pongAnnounceChaosOff: 'Chaos mode off',
+  pongAnnounceInertiaOn: 'Paddle inertia on',
+  pongAnnounceInertiaOff: 'Paddle inertia off',
+  pongAnnounceReplayCopied: 'Replay copied',
+  pongAnnounceReplayDiverged: 'The replay is out of sync with the recording',
+};
+
+export type PongStringId = keyof typeof FALLBACK_STRINGS;
+
+/**
+ * Get a localized string, falling back to English.
+ * @param args Values for the `$1` to `$9` placeholders.
+ */
+export function getPongString(
+    id: PongStringId, ...args: Array<string|number>): string {
+  const text = loadTimeData.valueExists(id) ? loadTimeData.getString(id) :
+                                              FALLBACK_STRINGS[id];
+  return text.replace(/\$([1-9])/g, (placeholder, index) => {
+    const arg = args[Number(index) - 1];
+    return arg === undefined ? placeholder : String(arg);
+  });
+}
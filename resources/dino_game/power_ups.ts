@@ -0,0 +1,150 @@
+// Copyright 2025 The Chromium Authors
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import {PONG_CONFIG} from './constants.js';
+import type {Dimensions} from './dimensions.js';
+import type {CollisionBox} from './offline_sprite_definitions.js';
+import type {RenderTheme} from './render_theme.js';
+
+/**
+ * Kinds of power-up. Each is collected by the side that last hit the ball
+ * that touched it.
+ */
+export enum PowerUpType {
+  BIG_PADDLE,       // Collector's paddle grows
+  SHRINK_OPPONENT,  // Opponent's paddle shrinks
+  MULTIBALL,        // Extra balls split off the one that collected it
+  SLOW_BALL,        // Balls in play slow down
+  SHIELD,           // A wall guards the collector's goal
+}
+
+const POWER_UP_TYPES: PowerUpType[] = [
+  PowerUpType.BIG_PADDLE,
+  PowerUpType.SHRINK_OPPONENT,
+  PowerUpType.MULTIBALL,
+  PowerUpType.SLOW_BALL,
+  PowerUpType.SHIELD,
+];
+
+/**
+ * A power-up waiting to be collected.
+ */
+export interface PowerUp {
+  type: PowerUpType;
+  x: number;
+  y: number;
+  size: number;
+}
+
+// Keeps items away from the top and bottom walls.
+const SPAWN_MARGIN: number = 10;
+
+// Period of the pulsing outline of an item, in ms.
+const PULSE_PERIOD: number = 800;
+
+// Time left, in ticks, from which a shield blinks before dropping.
+const SHIELD_WARNING_TICKS: number = 90;
+
+/**
+ * Place a random power-up on the center line.
+ * @param random Source of randomness, seeded so matches are reproducible.
+ */
+export function spawnPowerUp(
+    court: Dimensions, random: () => number): PowerUp {
+  const size = PONG_CONFIG.POWER_UP_SIZE;
+  const type =
+      POWER_UP_TYPES[Math.floor(random() * POWER_UP_TYPES.length)]!;
+  const y = SPAWN_MARGIN + random() * (court.height - size - SPAWN_MARGIN * 2);
+  return {type, x: (court.width - size) / 2, y, size};
+}
+
+export function getPowerUpBounds(powerUp: PowerUp): CollisionBox {
+  return {
+    x: powerUp.x,
+    y: powerUp.y,
+    width: powerUp.size,
+    height: powerUp.size,
+  };
+}
+
+/**
+ * Draw the symbol of a power-up type inside a box.
+ */
+function drawSymbol(
+    ctx: CanvasRenderingContext2D, type: PowerUpType, x: number, y: number,
+    size: number) {
+  const center = size / 2;
+  const unit = size / 7;
+
+  switch (type) {
+    case PowerUpType.BIG_PADDLE:
+      // Plus
+      ctx.fillRect(x + center - unit / 2, y + unit * 2, unit, unit * 3);
+      ctx.fillRect(x + unit * 2, y + center - unit / 2, unit * 3, unit);
+      break;
+    case PowerUpType.SHRINK_OPPONENT:
+      // Minus
+      ctx.fillRect(x + unit * 2, y + center - unit / 2, unit * 3, unit);
+      break;
+    case PowerUpType.MULTIBALL:
+      // Three balls
+      ctx.fillRect(x + unit * 1.5, y + unit * 1.5, unit * 1.5, unit * 1.5);
+      ctx.fillRect(x + unit * 4, y + unit * 1.5, unit * 1.5, unit * 1.5);
+      ctx.fillRect(x + unit * 2.75, y + unit * 4, unit * 1.5, unit * 1.5);
+      break;
+    case PowerUpType.SLOW_BALL:
+      // Hollow ball, like a slowed ball
+      ctx.strokeRect(x + unit * 2.5, y + unit * 2.5, unit * 2, unit * 2);
+      break;
+    case PowerUpType.SHIELD:
+      // Wall
+      ctx.fillRect(x + center - unit / 2, y + unit * 1.5, unit, unit * 4);
+      break;
+  }
+}
+
+/**
+ * Draw a power-up waiting on the court. The outline pulses unless the
+ * theme asks for reduced motion.
+ * @param time Current time in ms, for the pulse.
+ */
+export function drawPowerUp(
+    ctx: CanvasRenderingContext2D, powerUp: PowerUp, theme: RenderTheme,
+    time: number) {
+  ctx.save();
+  ctx.fillStyle = theme.foreground;
+  ctx.strokeStyle = theme.foreground;
+  ctx.lineWidth = 1;
+
+  if (!theme.reducedMotion) {
+    ctx.globalAlpha =
+        0.6 + 0.4 * Math.abs(Math.sin(Math.PI * time / PULSE_PERIOD));
+  }
+  ctx.strokeRect(
+      powerUp.x + 0.5, powerUp.y + 0.5, powerUp.size - 1, powerUp.size - 1);
+
+  ctx.globalAlpha = 1;
+  drawSymbol(ctx, powerUp.type, powerUp.x, powerUp.y, powerUp.size);
+  ctx.restore();
+}
+
+/**
+ * Draw a shield guarding a goal. It blinks shortly before it drops, unless
+ * the theme asks for reduced motion.
+ */
+export function drawShield(
+    ctx: CanvasRenderingContext2D, bounds: CollisionBox, ticksLeft: number,
+    theme: RenderTheme) {
+  const warning = ticksLeft < SHIELD_WARNING_TICKS;
+  if (warning && !theme.reducedMotion &&
+      Math.floor(ticksLeft / 10) % 2 === 0) {
+    return;
+  }
+
+  ctx.save();
+  ctx.fillStyle = theme.foreground;
+  ctx.globalAlpha = warning ? 0.4 : 0.7;
+  ctx.fillRect(bounds.x, bounds.y, bounds.width, bounds.height);
+  ctx.restore();
+}
@@ -0,0 +1,116 @@
+// Copyright 2025 The Chromium Authors
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import {PONG_CONFIG} from './constants.js';
+
+/**
+ * Colors used to draw the game.
+ */
+interface Palette {
+  // Court background.
+  background: string;
+  // Paddles, ball, center line, scores and canvas text.
+  foreground: string;
+  // Instructions shown below the game.
+  secondaryText: string;
+}
+
+const DEFAULT_PALETTE: Palette = {
+  background: '#f7f7f7',
+  foreground: '#535353',
+  secondaryText: '#757575',
+};
+
+const DARK_PALETTE: Palette = {
+  background: '#202124',
+  foreground: '#acacac',
+  secondaryText: '#9aa0a6',
+};
+
+const HIGH_CONTRAST_PALETTE: Palette = {
+  background: '#ffffff',
+  foreground: '#000000',
+  secondaryText: '#000000',
+};
+
+const HIGH_CONTRAST_DARK_PALETTE: Palette = {
+  background: '#000000',
+  foreground: '#ffffff',
+  secondaryText: '#ffffff',
+};
+
+// System colors, so forced colors mode (e.g. Windows high contrast) can pick
+// the user's own scheme.
+const FORCED_COLORS_PALETTE: Palette = {
+  background: 'Canvas',
+  foreground: 'CanvasText',
+  secondaryText: 'CanvasText',
+};
+
+/**
+ * How the game is drawn. Entities draw with the theme they are given rather
+ * than their own colors, so accessibility preferences apply everywhere.
+ */
+export interface RenderTheme extends Palette {
+  lineWidth: number;
+  // Draw score digits as bold text rather than from the sprite sheet.
+  textDigits: boolean;
+  // Disable flashing and other screen effects.
+  reducedMotion: boolean;
+  // Size of the ball in new matches.
+  ballSize: number;
+}
+
+const DARK_MODE_QUERY: string = '(prefers-color-scheme: dark)';
+const REDUCED_MOTION_QUERY: string = '(prefers-reduced-motion: reduce)';
+const HIGH_CONTRAST_QUERY: string = '(prefers-contrast: more)';
+const FORCED_COLORS_QUERY: string = '(forced-colors: active)';
+
+const THEME_QUERIES: string[] = [
+  DARK_MODE_QUERY,
+  REDUCED_MOTION_QUERY,
+  HIGH_CONTRAST_QUERY,
+  FORCED_COLORS_QUERY,
+];
+
+function matchesMedia(query: string): boolean {
+  return !!window.matchMedia && window.matchMedia(query).matches;
+}
+
+/**
+ * Build the theme for the current system preferences.
+ * @param largeBall Whether the player asked for a larger ball.
+ */
+export function createRenderTheme(largeBall: boolean): RenderTheme {
+  const forcedColors = matchesMedia(FORCED_COLORS_QUERY);
+  const highContrast = forcedColors || matchesMedia(HIGH_CONTRAST_QUERY);
+  const darkMode = matchesMedia(DARK_MODE_QUERY);
+
+  let palette = darkMode ? DARK_PALETTE : DEFAULT_PALETTE;
+  if (forcedColors) {
+    palette = FORCED_COLORS_PALETTE;
+  } else if (highContrast) {
+    palette = darkMode ? HIGH_CONTRAST_DARK_PALETTE : HIGH_CONTRAST_PALETTE;
+  }
+
+  return {
+    ...palette,
+    lineWidth: highContrast ? 3 : 2,
+    textDigits: highContrast,
+    reducedMotion: matchesMedia(REDUCED_MOTION_QUERY),
+    ballSize: largeBall ? PONG_CONFIG.LARGE_BALL_SIZE : PONG_CONFIG.BALL_SIZE,
+  };
+}
+
+/**
+ * Call `callback` whenever a system preference used by the theme changes.
+ */
+export function watchRenderThemePreferences(callback: () => void) {
+  if (!window.matchMedia) {
+    return;
+  }
+  for (const query of THEME_QUERIES) {
+    window.matchMedia(query).addEventListener('change', callback);
+  }
+}
@@ -0,0 +1,74 @@
+// Copyright 2025 The Chromium Authors
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import {GAME_MODE_PRESETS} from './game_modes.js';
+import type {GameModePreset} from './game_modes.js';
+import {isSupportedMatchLog} from './match_replay.js';
+import type {MatchLog} from './match_replay.js';
+import {MATCH_RULES_PRESETS} from './match_rules.js';
+import type {MatchRulesPreset} from './match_rules.js';
+import {isStorageAvailable, loadSetting, removeSetting, saveSetting} from './pong_settings.js';
+
+const SAVED_MATCH_SETTING: string = 'saved-match';
+
+/**
+ * A match left unfinished, e.g. because the page reloaded once the network
+ * came back. Replaying the log recreates the match where it stopped.
+ */
+export interface SavedMatch {
+  log: MatchLog;
+  // Start screen choices the match was played with, restored with it.
+  gameModePreset: GameModePreset;
+  rulesPreset: MatchRulesPreset;
+}
+
+/**
+ * Whether a value saved as a preset is one of the presets, i.e. a key of
+ * `presets`.
+ */
+function isPreset(value: unknown, presets: object): boolean {
+  return typeof value === 'number' && value in presets;
+}
+
+/**
+ * Get the match saved by an earlier visit to the page, null if there is none
+ * or it was saved in a format this version cannot play back, e.g. with a
+ * preset that no longer exists.
+ */
+export function loadSavedMatch(): SavedMatch|null {
+  const saved = loadSetting(SAVED_MATCH_SETTING);
+  if (!saved) {
+    return null;
+  }
+  try {
+    const match = JSON.parse(saved) as SavedMatch;
+    if (!isSupportedMatchLog(match.log) ||
+        !isPreset(match.gameModePreset, GAME_MODE_PRESETS) ||
+        !isPreset(match.rulesPreset, MATCH_RULES_PRESETS)) {
+      return null;
+    }
+    return match;
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Whether a match saved now can be resumed once the page reloads. Without
+ * storage that outlives the page, e.g. on network error pages, it cannot.
+ */
+export function canSaveMatch(): boolean {
+  return isStorageAvailable();
+}
+
+/**
+ * Save a match in progress, replacing any saved before.
+ */
+export function saveMatch(match: SavedMatch) {
+  saveSetting(SAVED_MATCH_SETTING, JSON.stringify(match));
+}
+
+export function clearSavedMatch() {
+  removeSetting(SAVED_MATCH_SETTING);
+}
@@ -2,7 +2,15 @@
 // Use of this source code is governed by a BSD-style license that can be
 // found in the LICENSE file.
 
-import {IS_HIDPI} from './constants.js';
+import {assert} from 'chrome://resources/js/assert.js';
+
+import {IS_HIDPI, IS_RTL} from './constants.js';
+import {PointType} from './match_rules.js';
+import type {CollisionBox} from './offline_sprite_definitions.js';
+import {EMPTY_PONG_RECORD} from './pong_record.js';
+import type {PongRecord} from './pong_record.js';
+import {getPongString} from './pong_strings.js';
+import type {RenderTheme} from './render_theme.js';
 import type {SpritePosition} from './sprite_position.js';
 
 /**
@@ -12,6 +20,79 @@ const DIGIT_WIDTH = 10;
 const DIGIT_HEIGHT = 13;
 const DIGIT_DEST_WIDTH = 11;
 
+/**
+ * Record line layout and reset flashing.
+ */
+const RECORD_FONT_SIZE = 10;
+const RECORD_BOTTOM_MARGIN = 6;
+const RECORD_HIT_AREA_PADDING = 4;
+const RECORD_FLASH_ITERATIONS = 6;
+
+/**
+ * Start screen menu layout.
+ */
+const MENU_FONT = '11px Arial, sans-serif';
+const MENU_ITEM_GAP = 16;
+const MENU_ROW_HEIGHT = 14;
+const MENU_SIDE_MARGIN = 8;
+// Space between the last row and the record line below it.
+const MENU_RECORD_GAP = 4;
+// Highest the first row goes, below the center of the court, clear of the
+// start and game over messages.
+const MENU_TOP_OFFSET = 38;
+
+/**
+ * Set score and set / match point lines, below the score.
+ */
+const MATCH_STATUS_FONT_SIZE = 10;
+const SETS_Y = 36;
+const POINT_TYPE_Y = 49;
+
+/**
+ * Time attack countdown, beside the score.
+ */
+const TIME_LEFT_FONT = 'bold 12px Arial, sans-serif';
+const TIME_LEFT_GAP = 12;
+// Time left from which the countdown is drawn in a larger font.
+const TIME_LEFT_WARNING = 10000;
+
+/**
+ * Post-game stats panel layout. Columns are as wide as their widest cell,
+ * with a gap between them and at least as much space at either side.
+ */
+const STATS_FONT_SIZE = 10;
+const STATS_HEADER_Y = 18;
+const STATS_ROW_HEIGHT = 14;
+const STATS_COLUMN_GAP = 16;
+const STATS_HINT_MARGIN = 8;
+
+/**
+ * Distance of the replay label from the side of the court.
+ */
+const REPLAY_LABEL_MARGIN = 8;
+
+/**
+ * Font for digits drawn as text, see `RenderTheme.textDigits`.
+ */
+const DIGIT_FONT = `bold ${DIGIT_HEIGHT + 3}px Arial, sans-serif`;
+
+/**
+ * A start screen option, e.g. '[2] 2 PLAYERS'.
+ */
+export interface MenuItem {
+  label: string;
+  active: boolean;
+}
+
+/**
+ * A line of the stats panel, e.g. 'Longest rally', '12', '31'.
+ */
+export interface StatsRow {
+  label: string;
+  match: string;
+  lifetime: string;
+}
+
 /**
  * Displays the score for both players in a Pong game.
  * Format: "P1_SCORE - P2_SCORE" centered at top of canvas.
@@ -21,23 +102,41 @@ export class ScoreDisplay {
   private canvasCtx: CanvasRenderingContext2D;
   private image: CanvasImageSource;
   private spritePos: SpritePosition;
+  // Copy of the sprite sheet digits in the theme's foreground color.
+  private tintedDigits: HTMLCanvasElement | null = null;
   private canvasWidth: number;
   private canvasHeight: number;
+  private theme: RenderTheme;
 
   private playerScore: number = 0;
   private aiScore: number = 0;
+  // Sets won, null when the match is a single set.
+  private sets: {player: number, ai: number} | null = null;
+  private pointType: PointType = PointType.NORMAL;
+  // Time attack time left in ms, null in untimed modes.
+  private timeLeft: number | null = null;
+  // Whether only the player's score is shown, e.g. returns in survival.
+  private solo: boolean = false;
 
   private flashTimer: number = 0;
   private flashDuration: number = 150;
   private isFlashing: boolean = false;
   private flashingSide: 'player' | 'ai' | null = null;
 
+  private record: PongRecord | null = null;
+  private recordFlashing: boolean = false;
+  private recordFlashTimer: number = 0;
+
+  // Page of the menu shown, when its options don't all fit.
+  private menuPage: number = 0;
+
   constructor(
       canvas: HTMLCanvasElement,
       spritePos: SpritePosition,
       canvasWidth: number,
       canvasHeight: number,
-      image: CanvasImageSource) {
+      image: CanvasImageSource,
+      theme: RenderTheme) {
     this.canvas = canvas;
     const ctx = canvas.getContext('2d');
     if (!ctx) {
@@ -48,6 +147,49 @@ export class ScoreDisplay {
     this.spritePos = spritePos;
     this.canvasWidth = canvasWidth;
     this.canvasHeight = canvasHeight;
+    this.theme = theme;
+    this.tintDigits();
+  }
+
+  /**
+   * Lay out for a resized canvas, keeping scores and animations.
+   */
+  resize(canvasWidth: number, canvasHeight: number) {
+    this.canvasWidth = canvasWidth;
+    this.canvasHeight = canvasHeight;
+  }
+
+  setTheme(theme: RenderTheme) {
+    this.theme = theme;
+    this.tintDigits();
+  }
+
+  /**
+   * Recolor the sprite sheet digits, which are drawn in gray for the light
+   * theme, to the foreground color so scores stay legible on any background.
+   */
+  private tintDigits() {
+    const scale = IS_HIDPI ? 2 : 1;
+    const width = DIGIT_WIDTH * 10 * scale;
+    const height = DIGIT_HEIGHT * scale;
+
+    const canvas = this.tintedDigits ?? document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      this.tintedDigits = null;
+      return;
+    }
+
+    ctx.drawImage(
+        this.image, this.spritePos.x, this.spritePos.y, width, height, 0, 0,
+        width, height);
+    // Keep the digits' shape and antialiasing, replacing only the color.
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.fillStyle = this.theme.foreground;
+    ctx.fillRect(0, 0, width, height);
+    this.tintedDigits = canvas;
   }
 
   /**
@@ -70,6 +212,46 @@ export class ScoreDisplay {
     }
   }
 
+  /**
+   * Set both scores without flashing, e.g. when seeking a replay.
+   */
+  setScores(playerScore: number, aiScore: number) {
+    this.playerScore = playerScore;
+    this.aiScore = aiScore;
+    this.isFlashing = false;
+    this.flashingSide = null;
+  }
+
+  /**
+   * Set the sets won by each side.
+   * @param sets Sets won, or null to hide the set score in single set
+   *     matches.
+   */
+  setSets(sets: {player: number, ai: number} | null) {
+    this.sets = sets;
+  }
+
+  /**
+   * Flag the next point as a set or match point.
+   */
+  setPointType(pointType: PointType) {
+    this.pointType = pointType;
+  }
+
+  /**
+   * Set the time attack time left, in ms, or null to hide the countdown.
+   */
+  setTimeLeft(timeLeft: number | null) {
+    this.timeLeft = timeLeft;
+  }
+
+  /**
+   * Show only the player's score, for single player modes.
+   */
+  setSolo(solo: boolean) {
+    this.solo = solo;
+  }
+
   /**
    * Get current player score.
    */
@@ -105,12 +287,31 @@ export class ScoreDisplay {
         this.flashTimer = 0;
       }
     }
+
+    if (this.recordFlashing) {
+      this.recordFlashTimer += deltaTime;
+      if (this.recordFlashTimer >=
+          this.flashDuration * 2 * RECORD_FLASH_ITERATIONS) {
+        this.cancelRecordFlashing();
+      }
+    }
   }
 
   /**
    * Draw a single digit at the specified position.
    */
   private drawDigit(digit: number, x: number, y: number) {
+    if (this.theme.textDigits) {
+      this.canvasCtx.save();
+      this.canvasCtx.fillStyle = this.theme.foreground;
+      this.canvasCtx.font = DIGIT_FONT;
+      this.canvasCtx.textAlign = 'center';
+      this.canvasCtx.textBaseline = 'top';
+      this.canvasCtx.fillText(String(digit), x + DIGIT_WIDTH / 2, y);
+      this.canvasCtx.restore();
+      return;
+    }
+
     let sourceWidth = DIGIT_WIDTH;
     let sourceHeight = DIGIT_HEIGHT;
     let sourceX = DIGIT_WIDTH * digit;
@@ -122,11 +323,16 @@ export class ScoreDisplay {
       sourceX *= 2;
     }
 
-    sourceX += this.spritePos.x;
-    sourceY += this.spritePos.y;
+    let image = this.image;
+    if (this.tintedDigits) {
+      image = this.tintedDigits;
+    } else {
+      sourceX += this.spritePos.x;
+      sourceY += this.spritePos.y;
+    }
 
     this.canvasCtx.drawImage(
-        this.image,
+        image,
         sourceX,
         sourceY,
         sourceWidth,
@@ -144,69 +350,149 @@ export class ScoreDisplay {
     const y = 10; // Top margin
 
     // Determine if we should hide the flashing score
-    const hideFlashing = this.isFlashing &&
+    const hideFlashing = this.isFlashing && !this.theme.reducedMotion &&
         Math.floor(this.flashTimer / this.flashDuration) % 2 === 1;
 
-    // Format scores as 2-digit strings
-    const playerStr = this.playerScore.toString().padStart(2, '0');
-    const aiStr = this.aiScore.toString().padStart(2, '0');
-
     // Calculate total width: "00 - 00" = 7 characters worth
     // 2 digits + space + dash + space + 2 digits
     const dashWidth = DIGIT_DEST_WIDTH;
     const spaceWidth = DIGIT_DEST_WIDTH / 2;
-    const totalWidth = (4 * DIGIT_DEST_WIDTH) + (2 * spaceWidth) + dashWidth;
+    const totalWidth = this.solo ?
+        2 * DIGIT_DEST_WIDTH :
+        (4 * DIGIT_DEST_WIDTH) + (2 * spaceWidth) + dashWidth;
     const startX = (this.canvasWidth - totalWidth) / 2;
 
     let currentX = startX;
 
-    // Draw player score (left side)
-    if (!(hideFlashing && this.flashingSide === 'player')) {
-      for (let i = 0; i < playerStr.length; i++) {
-        this.drawDigit(parseInt(playerStr[i]!, 10), currentX, y);
-        currentX += DIGIT_DEST_WIDTH;
+    // Each score is drawn on its paddle's side, and the player's paddle is
+    // on the right in RTL.
+    let sides: Array<'player'|'ai'> =
+        IS_RTL ? ['ai', 'player'] : ['player', 'ai'];
+    if (this.solo) {
+      sides = ['player'];
+    }
+    sides.forEach((side, index) => {
+      if (index > 0) {
+        // Draw separator " - "
+        currentX += spaceWidth;
+        this.drawDash(currentX, y + 5);  // Centered vertically
+        currentX += dashWidth + spaceWidth;
       }
-    } else {
-      currentX += DIGIT_DEST_WIDTH * 2;
+
+      // Format scores as 2-digit strings
+      const score = side === 'player' ? this.playerScore : this.aiScore;
+      const scoreStr = score.toString().padStart(2, '0');
+      if (!(hideFlashing && this.flashingSide === side)) {
+        for (let i = 0; i < scoreStr.length; i++) {
+          this.drawDigit(
+              parseInt(scoreStr[i]!, 10), currentX + i * DIGIT_DEST_WIDTH, y);
+        }
+      }
+      currentX += DIGIT_DEST_WIDTH * scoreStr.length;
+    });
+
+    this.drawTimeLeft(startX, startX + totalWidth, y);
+    this.drawMatchStatus();
+  }
+
+  /**
+   * Draw the time attack countdown after the score, before it in RTL.
+   * @param scoreStart Left edge of the score.
+   * @param scoreEnd Right edge of the score.
+   */
+  private drawTimeLeft(scoreStart: number, scoreEnd: number, y: number) {
+    if (this.timeLeft === null) {
+      return;
     }
+    const seconds = Math.ceil(this.timeLeft / 1000);
+    const text = `${Math.floor(seconds / 60)}:` +
+        String(seconds % 60).padStart(2, '0');
 
-    // Draw separator " - "
-    currentX += spaceWidth;
-    this.drawDash(currentX, y + 5); // Centered vertically
-    currentX += dashWidth + spaceWidth;
+    this.canvasCtx.save();
+    this.canvasCtx.fillStyle = this.theme.foreground;
+    this.canvasCtx.font = this.timeLeft <= TIME_LEFT_WARNING ?
+        `bold ${DIGIT_HEIGHT + 3}px Arial, sans-serif` :
+        TIME_LEFT_FONT;
+    this.canvasCtx.textBaseline = 'top';
+    this.canvasCtx.textAlign = IS_RTL ? 'right' : 'left';
+    this.canvasCtx.fillText(
+        text, IS_RTL ? scoreStart - TIME_LEFT_GAP : scoreEnd + TIME_LEFT_GAP,
+        y);
+    this.canvasCtx.restore();
+  }
 
-    // Draw AI score (right side)
-    if (!(hideFlashing && this.flashingSide === 'ai')) {
-      for (let i = 0; i < aiStr.length; i++) {
-        this.drawDigit(parseInt(aiStr[i]!, 10), currentX, y);
-        currentX += DIGIT_DEST_WIDTH;
-      }
+  /**
+   * Draw the set score and flag set and match points below the score.
+   */
+  private drawMatchStatus() {
+    this.canvasCtx.save();
+    this.canvasCtx.fillStyle = this.theme.foreground;
+    this.canvasCtx.textAlign = 'center';
+    const x = this.canvasWidth / 2;
+
+    if (this.sets) {
+      // Set counts read in the same order as the scores above them.
+      const [first, second] = IS_RTL ? [this.sets.ai, this.sets.player] :
+                                       [this.sets.player, this.sets.ai];
+      this.canvasCtx.font = `${MATCH_STATUS_FONT_SIZE}px Arial, sans-serif`;
+      this.canvasCtx.fillText(
+          getPongString('pongSets', first, second), x, SETS_Y);
     }
+
+    if (this.pointType !== PointType.NORMAL) {
+      this.canvasCtx.font =
+          `bold ${MATCH_STATUS_FONT_SIZE}px Arial, sans-serif`;
+      this.canvasCtx.fillText(
+          getPongString(
+              this.pointType === PointType.MATCH_POINT ? 'pongMatchPoint' :
+                                                         'pongSetPoint'),
+          x, this.sets ? POINT_TYPE_Y : SETS_Y);
+    }
+    this.canvasCtx.restore();
   }
 
   /**
    * Draw a dash/minus sign.
    */
   private drawDash(x: number, y: number) {
-    this.canvasCtx.fillStyle = '#535353';
+    this.canvasCtx.fillStyle = this.theme.foreground;
     this.canvasCtx.fillRect(x + 2, y, DIGIT_WIDTH - 4, 3);
   }
 
   /**
    * Draw game over message.
+   * @param playerWon Whether the left paddle won.
+   * @param isTwoPlayer Whether both paddles were controlled by players.
    */
-  drawGameOver(playerWon: boolean) {
-    const message = playerWon ? 'YOU WIN!' : 'CPU WINS';
+  drawGameOver(playerWon: boolean, isTwoPlayer: boolean) {
+    let message = getPongString(playerWon ? 'pongYouWin' : 'pongCpuWins');
+    if (isTwoPlayer) {
+      message =
+          getPongString(playerWon ? 'pongPlayer1Wins' : 'pongPlayer2Wins');
+    }
+    this.drawGameOverMessage(message);
+  }
+
+  /**
+   * Draw the result of a survival game.
+   * @param returns Returns made before the ball got past.
+   */
+  drawSurvivalOver(returns: number) {
+    this.drawGameOverMessage(getPongString('pongSurvivalOver', returns));
+  }
+
+  private drawGameOverMessage(message: string) {
     const y = this.canvasHeight / 2 - 10;
 
     this.canvasCtx.save();
-    this.canvasCtx.fillStyle = '#535353';
+    this.canvasCtx.fillStyle = this.theme.foreground;
     this.canvasCtx.font = 'bold 20px Arial, sans-serif';
     this.canvasCtx.textAlign = 'center';
     this.canvasCtx.fillText(message, this.canvasWidth / 2, y);
 
     this.canvasCtx.font = '12px Arial, sans-serif';
-    this.canvasCtx.fillText('Press SPACE to play again', this.canvasWidth / 2, y + 25);
+    this.canvasCtx.fillText(
+        getPongString('pongPlayAgain'), this.canvasWidth / 2, y + 25);
     this.canvasCtx.restore();
   }
 
@@ -217,19 +503,409 @@ export class ScoreDisplay {
     const y = this.canvasHeight / 2 + 20;
 
     this.canvasCtx.save();
-    this.canvasCtx.fillStyle = '#535353';
+    this.canvasCtx.fillStyle = this.theme.foreground;
     this.canvasCtx.font = '12px Arial, sans-serif';
     this.canvasCtx.textAlign = 'center';
-    this.canvasCtx.fillText('Press SPACE to start', this.canvasWidth / 2, y);
+    this.canvasCtx.fillText(
+        getPongString('pongStart'), this.canvasWidth / 2, y);
     this.canvasCtx.restore();
   }
 
+  /**
+   * Draw the start screen options in centered rows, wrapping when they don't
+   * fit across the court. Inactive options are faded. The rows sit above
+   * the record line, below the screen's message; when more are needed the
+   * options are split into pages, turned with `nextMenuPage`.
+   */
+  drawMenu(items: MenuItem[]) {
+    this.canvasCtx.save();
+    this.canvasCtx.fillStyle = this.theme.foreground;
+    this.canvasCtx.textAlign = 'left';
+
+    const moreItem = {label: getPongString('pongMenuMore'), active: true};
+    const allItems = [...items, moreItem];
+    const more = items.length;
+    const fonts = allItems.map(
+        item => item.active ? `bold ${MENU_FONT}` : MENU_FONT);
+    const widths = allItems.map((item, i) => {
+      this.canvasCtx.font = fonts[i]!;
+      return this.canvasCtx.measureText(item.label).width;
+    });
+
+    const bottomY = this.canvasHeight - RECORD_BOTTOM_MARGIN -
+        RECORD_FONT_SIZE - MENU_RECORD_GAP;
+    const maxRows = Math.max(
+        1, Math.floor((bottomY - this.canvasHeight / 2 - MENU_TOP_OFFSET) /
+                      MENU_ROW_HEIGHT) + 1);
+
+    // Fill each page with as many items as fit in its rows, leaving room
+    // for the item that turns the page.
+    const indices = items.map((_, i) => i);
+    let pages = [indices];
+    if (this.getMenuRows(indices, widths).length > maxRows) {
+      pages = [[]];
+      for (const i of indices) {
+        const page = pages[pages.length - 1]!;
+        if (page.length &&
+            this.getMenuRows([...page, i, more], widths).length > maxRows) {
+          pages.push([i]);
+        } else {
+          page.push(i);
+        }
+      }
+      pages = pages.map(page => [...page, more]);
+    }
+    this.menuPage %= pages.length;
+    const rows = this.getMenuRows(pages[this.menuPage]!, widths);
+
+    let y = bottomY - MENU_ROW_HEIGHT * (rows.length - 1);
+    for (const row of rows) {
+      const totalWidth =
+          row.reduce((sum, i) => sum + widths[i]!, 0) +
+          MENU_ITEM_GAP * (row.length - 1);
+      let x = (this.canvasWidth - totalWidth) / 2;
+      // Items read from right to left in RTL.
+      for (const i of IS_RTL ? [...row].reverse() : row) {
+        this.canvasCtx.font = fonts[i]!;
+        this.canvasCtx.globalAlpha = allItems[i]!.active ? 1 : .5;
+        this.canvasCtx.fillText(allItems[i]!.label, x, y);
+        x += widths[i]! + MENU_ITEM_GAP;
+      }
+      y += MENU_ROW_HEIGHT;
+    }
+    this.canvasCtx.restore();
+  }
+
+  /**
+   * Split menu items into rows, filling each with as many as fit.
+   * @param indices Items to lay out, in order.
+   * @param widths Width of every item.
+   */
+  private getMenuRows(indices: number[], widths: number[]): number[][] {
+    const maxRowWidth = this.canvasWidth - MENU_SIDE_MARGIN * 2;
+    const rows: number[][] = [[]];
+    let rowWidth = 0;
+    for (const i of indices) {
+      const row = rows[rows.length - 1]!;
+      const width = widths[i]!;
+      const neededWidth = row.length ? rowWidth + MENU_ITEM_GAP + width : width;
+      if (row.length && neededWidth > maxRowWidth) {
+        rows.push([i]);
+        rowWidth = width;
+      } else {
+        row.push(i);
+        rowWidth = neededWidth;
+      }
+    }
+    return rows;
+  }
+
+  /**
+   * Show the next page of the menu, after the last one the first.
+   */
+  nextMenuPage() {
+    this.menuPage++;
+  }
+
+
+  /**
+   * Draw the pause overlay.
+   * @param countdown Seconds left before play resumes, or null while waiting
+   *     for the player to unpause.
+   */
+  drawPaused(countdown: number | null) {
+    this.canvasCtx.save();
+    this.canvasCtx.globalAlpha = .7;
+    this.canvasCtx.fillStyle = this.theme.background;
+    this.canvasCtx.fillRect(0, 0, this.canvasWidth, this.canvasHeight);
+
+    this.canvasCtx.globalAlpha = 1;
+    this.canvasCtx.fillStyle = this.theme.foreground;
+    this.canvasCtx.textAlign = 'center';
+    const y = this.canvasHeight / 2;
+
+    if (countdown !== null) {
+      this.canvasCtx.font = 'bold 32px Arial, sans-serif';
+      this.canvasCtx.fillText(String(countdown), this.canvasWidth / 2, y + 10);
+    } else {
+      this.canvasCtx.font = 'bold 20px Arial, sans-serif';
+      this.canvasCtx.fillText(
+          getPongString('pongPaused'), this.canvasWidth / 2, y);
+      this.canvasCtx.font = '12px Arial, sans-serif';
+      this.canvasCtx.fillText(
+          getPongString('pongResumeHint'), this.canvasWidth / 2, y + 25);
+    }
+    this.canvasCtx.restore();
+  }
+
+  /**
+   * Draw the stats panel over the court, comparing the match just played
+   * with all matches.
+   * @param showLifetime Whether to show the stats of all matches, which are
+   *     only kept where storage outlives the page.
+   */
+  drawStats(rows: StatsRow[], showLifetime: boolean) {
+    this.canvasCtx.save();
+    this.canvasCtx.globalAlpha = .9;
+    this.canvasCtx.fillStyle = this.theme.background;
+    this.canvasCtx.fillRect(0, 0, this.canvasWidth, this.canvasHeight);
+
+    this.canvasCtx.globalAlpha = 1;
+    this.canvasCtx.fillStyle = this.theme.foreground;
+    this.canvasCtx.textAlign = 'center';
+    const headerFont = `bold ${STATS_FONT_SIZE}px Arial, sans-serif`;
+    const rowFont = `${STATS_FONT_SIZE}px Arial, sans-serif`;
+    const header = ['', getPongString('pongStatsThisMatch')];
+    const cells = rows.map(row => [row.label, row.match]);
+    if (showLifetime) {
+      header.push(getPongString('pongStatsAllTime'));
+      cells.forEach((row, i) => row.push(rows[i]!.lifetime));
+    }
+    const columnX = this.getStatsColumns(header, headerFont, cells, rowFont);
+
+    // Without room for the columns, each row is drawn as one line.
+    const drawRow = (row: string[], y: number) => {
+      if (columnX) {
+        row.forEach(
+            (cell, i) => this.canvasCtx.fillText(cell, columnX[i]!, y));
+      } else {
+        const [label, ...values] = row;
+        const line = values.join(' / ');
+        this.canvasCtx.fillText(
+            label ? `${label} ${line}` : line, this.canvasWidth / 2, y);
+      }
+    };
+
+    this.canvasCtx.font = headerFont;
+    drawRow(header, STATS_HEADER_Y);
+    this.canvasCtx.font = rowFont;
+    cells.forEach((row, i) => {
+      drawRow(row, STATS_HEADER_Y + STATS_ROW_HEIGHT * (i + 1));
+    });
+
+    this.canvasCtx.fillText(
+        getPongString('pongStatsHint'), this.canvasWidth / 2,
+        this.canvasHeight - STATS_HINT_MARGIN);
+    this.canvasCtx.restore();
+  }
+
+  /**
+   * Lay out the stats panel columns from the width of their text.
+   * @return Center of each column, or null if they don't fit on the court.
+   */
+  private getStatsColumns(
+      header: string[], headerFont: string, rows: string[][],
+      rowFont: string): number[]|null {
+    const widths = header.map(() => 0);
+    const measure = (row: string[]) => {
+      row.forEach((cell, i) => {
+        widths[i] =
+            Math.max(widths[i]!, this.canvasCtx.measureText(cell).width);
+      });
+    };
+    this.canvasCtx.font = headerFont;
+    measure(header);
+    this.canvasCtx.font = rowFont;
+    rows.forEach(measure);
+
+    const total = widths.reduce((sum, width) => sum + width, 0) +
+        STATS_COLUMN_GAP * (widths.length - 1);
+    if (total > this.canvasWidth - STATS_COLUMN_GAP * 2) {
+      return null;
+    }
+    let x = (this.canvasWidth - total) / 2;
+    return widths.map(width => {
+      const center = x + width / 2;
+      x += width + STATS_COLUMN_GAP;
+      // Columns read from the right in RTL.
+      return IS_RTL ? this.canvasWidth - center : center;
+    });
+  }
+
+  /**
+   * Draw the replay label, controls and a progress bar along the bottom.
+   * @param progress Fraction of the replay played back (0-1).
+   * @param diverged Whether the replay no longer matches the recording.
+   */
+  drawReplayStatus(
+      progress: number, speed: number, paused: boolean, diverged: boolean) {
+    this.canvasCtx.save();
+    this.canvasCtx.fillStyle = this.theme.foreground;
+
+    // The label sits at the start of the line, on the right in RTL.
+    this.canvasCtx.font = 'bold 11px Arial, sans-serif';
+    this.canvasCtx.textAlign = IS_RTL ? 'right' : 'left';
+    this.canvasCtx.fillText(
+        paused ? getPongString('pongReplayPaused') :
+                 getPongString('pongReplay', speed),
+        IS_RTL ? this.canvasWidth - REPLAY_LABEL_MARGIN : REPLAY_LABEL_MARGIN,
+        20);
+    if (diverged) {
+      this.canvasCtx.fillText(
+          getPongString('pongReplayDiverged'),
+          IS_RTL ? this.canvasWidth - REPLAY_LABEL_MARGIN :
+                   REPLAY_LABEL_MARGIN,
+          34);
+    }
+
+    this.canvasCtx.font = `${RECORD_FONT_SIZE}px Arial, sans-serif`;
+    this.canvasCtx.textAlign = 'center';
+    this.canvasCtx.globalAlpha = .8;
+    this.canvasCtx.fillText(
+        getPongString('pongReplayControls'), this.canvasWidth / 2,
+        this.canvasHeight - RECORD_BOTTOM_MARGIN - 4);
+
+    this.canvasCtx.globalAlpha = 1;
+    const barWidth = this.canvasWidth * Math.min(1, Math.max(0, progress));
+    this.canvasCtx.fillRect(
+        IS_RTL ? this.canvasWidth - barWidth : 0, this.canvasHeight - 3,
+        barWidth, 3);
+    this.canvasCtx.restore();
+  }
+
+  /**
+   * Set the persistent record shown below the court.
+   */
+  setRecord(record: PongRecord) {
+    this.record = record;
+  }
+
+  private getRecordText(): string {
+    assert(this.record);
+    if (this.recordFlashing && this.theme.reducedMotion) {
+      // Prompt instead of flashing.
+      return getPongString('pongRecordResetPrompt');
+    }
+    return getPongString(
+        'pongRecord', this.record.longestStreak, this.record.bestMargin,
+        this.record.totalWins);
+  }
+
+  /**
+   * Draw the persistent record (longest streak, best margin, total wins).
+   */
+  drawRecord() {
+    if (!this.record ||
+        (this.recordFlashing && !this.theme.reducedMotion &&
+         Math.floor(this.recordFlashTimer / this.flashDuration) % 2 === 0)) {
+      return;
+    }
+
+    this.canvasCtx.save();
+    this.canvasCtx.globalAlpha = .8;
+    this.canvasCtx.fillStyle = this.theme.foreground;
+    this.canvasCtx.font = `${RECORD_FONT_SIZE}px Arial, sans-serif`;
+    this.canvasCtx.textAlign = 'center';
+    this.canvasCtx.fillText(
+        this.getRecordText(), this.canvasWidth / 2,
+        this.canvasHeight - RECORD_BOTTOM_MARGIN);
+    this.canvasCtx.restore();
+  }
+
+  /**
+   * Draw the best score of the current game mode in place of the record.
+   * @param isNewBest Whether the last game set it.
+   */
+  drawBestScore(best: number, isNewBest: boolean) {
+    this.canvasCtx.save();
+    this.canvasCtx.globalAlpha = .8;
+    this.canvasCtx.fillStyle = this.theme.foreground;
+    this.canvasCtx.font = isNewBest ?
+        `bold ${RECORD_FONT_SIZE}px Arial, sans-serif` :
+        `${RECORD_FONT_SIZE}px Arial, sans-serif`;
+    this.canvasCtx.textAlign = 'center';
+    this.canvasCtx.fillText(
+        getPongString(isNewBest ? 'pongNewBest' : 'pongBest', best),
+        this.canvasWidth / 2, this.canvasHeight - RECORD_BOTTOM_MARGIN);
+    this.canvasCtx.restore();
+  }
+
+  /**
+   * Get the bounding box for the record line.
+   */
+  private getRecordBounds(): CollisionBox {
+    this.canvasCtx.save();
+    this.canvasCtx.font = `${RECORD_FONT_SIZE}px Arial, sans-serif`;
+    const width = this.canvasCtx.measureText(this.getRecordText()).width;
+    this.canvasCtx.restore();
+
+    return {
+      x: (this.canvasWidth - width) / 2 - RECORD_HIT_AREA_PADDING,
+      y: this.canvasHeight - RECORD_BOTTOM_MARGIN - RECORD_FONT_SIZE -
+          RECORD_HIT_AREA_PADDING,
+      width: width + RECORD_HIT_AREA_PADDING * 2,
+      height: RECORD_FONT_SIZE + RECORD_HIT_AREA_PADDING * 2,
+    };
+  }
+
+  /**
+   * Whether a click or tap landed on the record line.
+   */
+  hasClickedOnRecord(e: Event): boolean {
+    if (!this.record) {
+      return false;
+    }
+
+    let x = 0;
+    let y = 0;
+
+    if (e instanceof TouchEvent) {
+      // Bounds for touch differ from pointer.
+      const canvasBounds = this.canvas.getBoundingClientRect();
+      x = e.touches[0]!.clientX - canvasBounds.left;
+      y = e.touches[0]!.clientY - canvasBounds.top;
+    } else if (e instanceof MouseEvent) {
+      x = e.offsetX;
+      y = e.offsetY;
+    }
+
+    // The canvas is drawn scaled up in the expanded view.
+    const displayWidth = this.canvas.getBoundingClientRect().width;
+    if (displayWidth) {
+      x *= this.canvasWidth / displayWidth;
+      y *= this.canvasWidth / displayWidth;
+    }
+
+    const bounds = this.getRecordBounds();
+    return x >= bounds.x && x <= bounds.x + bounds.width && y >= bounds.y &&
+        y <= bounds.y + bounds.height;
+  }
+
+  /**
+   * Flash the record to indicate that a second click will reset it.
+   */
+  startRecordFlashing() {
+    this.recordFlashing = true;
+    this.recordFlashTimer = 0;
+  }
+
+  isRecordFlashing(): boolean {
+    return this.recordFlashing;
+  }
+
+  cancelRecordFlashing() {
+    this.recordFlashing = false;
+    this.recordFlashTimer = 0;
+  }
+
+  /**
+   * Clear the record.
+   */
+  resetRecord() {
+    this.setRecord(EMPTY_PONG_RECORD);
+    this.cancelRecordFlashing();
+  }
+
   /**
    * Reset scores to zero.
    */
   reset() {
     this.playerScore = 0;
     this.aiScore = 0;
+    this.pointType = PointType.NORMAL;
+    if (this.sets) {
+      this.sets = {player: 0, ai: 0};
+    }
     this.isFlashing = false;
     this.flashingSide = null;
     this.flashTimer = 0;
@@ -0,0 +1,41 @@
+// Copyright 2025 The Chromium Authors
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+/**
+ * Small deterministic pseudo random number generator (mulberry32), so a match
+ * can be reproduced from its seed.
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Return a number in [0, 1), like Math.random().
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Current generator state, which can be passed back to the constructor to
+   * continue the same sequence.
+   */
+  getState(): number {
+    return this.state;
+  }
+}
+
+/**
+ * Pick a fresh seed for a new match.
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
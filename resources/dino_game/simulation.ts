@@ -0,0 +1,680 @@
+// Copyright 2025 The Chromium Authors
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import {AiStrategy, selectTargetBall} from './ai_strategy.js';
+import type {AiDifficulty} from './ai_strategy.js';
+import {Ball} from './ball.js';
+import {FPS, PONG_CONFIG} from './constants.js';
+import type {Dimensions} from './dimensions.js';
+import {DEFAULT_MATCH_RULES, getServer, getSetFirstServer, getSetsToWin, isSetWon} from './match_rules.js';
+import type {MatchRules} from './match_rules.js';
+import {createMatchStats, updateMatchStats} from './match_stats.js';
+import type {MatchStats} from './match_stats.js';
+import type {CollisionBox} from './offline_sprite_definitions.js';
+import {Paddle} from './paddle.js';
+import type {PaddlePhysics} from './paddle.js';
+import {getPowerUpBounds, PowerUpType, spawnPowerUp} from './power_ups.js';
+import type {PowerUp} from './power_ups.js';
+import {SeededRandom} from './seeded_random.js';
+
+/**
+ * Length of one simulation tick in milliseconds. Ball and paddle speeds are
+ * expressed in px per tick.
+ */
+export const TICK_MS: number = 1000 / FPS;
+
+/**
+ * Longest frame the game loop will catch up on. Anything longer (e.g. a
+ * backgrounded tab) is dropped rather than simulated in one burst.
+ */
+export const MAX_FRAME_TIME: number = 250;
+
+export type Side = 'left' | 'right';
+
+/**
+ * Phase of a match.
+ */
+export enum MatchPhase {
+  IDLE,   // No match in progress, paddles can still be moved
+  SERVE,  // Ball is parked, waiting to be launched
+  RALLY,  // Ball is in motion
+  OVER,   // A side has won the match
+}
+
+/**
+ * How a match is won.
+ */
+export enum MatchMode {
+  STANDARD,       // Played to the match rules
+  TIME_ATTACK,    // Most points when time runs out
+  SURVIVAL_WALL,  // Left paddle returns the ball off a wall for as long as
+                  // it can, the score is the number of returns
+  SURVIVAL_AI,    // Same against a CPU that never misses
+}
+
+export function isSurvivalMode(mode: MatchMode): boolean {
+  return mode === MatchMode.SURVIVAL_WALL || mode === MatchMode.SURVIVAL_AI;
+}
+
+/**
+ * Player input for one paddle during one tick.
+ */
+export interface PaddleInput {
+  // -1 (full speed up) to 1 (full speed down).
+  axis: number;
+  // Absolute position to center the paddle on, overriding `axis`.
+  targetY: number | null;
+}
+
+export const IDLE_INPUT: PaddleInput = {axis: 0, targetY: null};
+
+export interface TickInputs {
+  left: PaddleInput;
+  right: PaddleInput;
+}
+
+/**
+ * Things that happened during a tick, for the UI to react to.
+ */
+export type MatchEvent = {type: 'serve'} |
+    // `edge` is whether the ball came off the edge of the paddle.
+    {type: 'paddle-hit', side: Side, ball: Ball, edge: boolean} |
+    {type: 'wall-bounce', ball: Ball} |
+    // Survival against a wall only, the ball coming back off the wall.
+    {type: 'wall-return', ball: Ball} |
+    {type: 'shield-hit', side: Side, ball: Ball} |
+    {type: 'power-up-spawn'} |
+    {type: 'power-up-collect', side: Side, powerUp: PowerUpType} |
+    {type: 'power-up-expire'} |
+    {type: 'ball-added', ball: Ball} |
+    // `rallyOver` is false while other balls are still in play.
+    {type: 'score', scorer: Side, rallyOver: boolean} |
+    {type: 'set-over', winner: Side} |
+    // Time attack only. If the scores are level the next point wins.
+    {type: 'time-up'} |
+    {type: 'match-over', winner: Side};
+
+/**
+ * Complete simulation state. Everything needed to advance the match lives
+ * here, so the same state and inputs always produce the same result.
+ */
+export interface MatchState {
+  tick: number;
+  phase: MatchPhase;
+  court: Dimensions;
+  // Balls in play. There is always at least one; multiball power-ups and
+  // chaos mode add more.
+  balls: Ball[];
+  leftPaddle: Paddle;
+  rightPaddle: Paddle;
+  // CPU strategy for each side, null when the side is a player.
+  leftAi: AiStrategy | null;
+  rightAi: AiStrategy | null;
+  mode: MatchMode;
+  rules: MatchRules;
+  // Time attack: length of the match and ticks of play left.
+  timeLimitTicks: number;
+  timeLeftTicks: number;
+  // Survival against the CPU: where on its paddle the CPU plays the ball,
+  // relative to the paddle's center.
+  survivalAim: number;
+  // Points in the current set, or returns in survival. They are kept after a
+  // set is won until the next serve, so the final score of the set can be
+  // shown.
+  scores: Record<Side, number>;
+  // Sets won.
+  sets: Record<Side, number>;
+  // Side that served first in the match.
+  firstServer: Side;
+  // Ticks left before the ball is launched while serving.
+  serveTicks: number;
+  // Whether power-ups spawn in this match.
+  powerUps: boolean;
+  // Power-up waiting to be collected.
+  powerUp: PowerUp | null;
+  // Ticks in play left before the next power-up spawns.
+  powerUpTicks: number;
+  // Whether a ball is added every `PONG_CONFIG.CHAOS_HITS_PER_BALL` paddle
+  // hits.
+  chaos: boolean;
+  // Paddle hits since the serve.
+  rallyHits: number;
+  stats: MatchStats;
+  random: SeededRandom;
+}
+
+export interface MatchOptions {
+  court: Dimensions;
+  seed: number;
+  // Ball size in px, defaults to `PONG_CONFIG.BALL_SIZE`.
+  ballSize?: number;
+  powerUps?: boolean;
+  chaos?: boolean;
+  // Momentum for each paddle, null (the default) for constant speed.
+  leftPaddlePhysics?: PaddlePhysics | null;
+  rightPaddlePhysics?: PaddlePhysics | null;
+  // Defaults to `MatchMode.STANDARD`.
+  mode?: MatchMode;
+  // Length of a time attack match, in ms.
+  timeLimit?: number;
+  // Defaults to `DEFAULT_MATCH_RULES`.
+  rules?: MatchRules;
+  leftAi?: AiDifficulty | null;
+  rightAi?: AiDifficulty | null;
+}
+
+/**
+ * Create a match in the IDLE phase.
+ */
+export function createMatchState(options: MatchOptions): MatchState {
+  const {court} = options;
+  const random = new SeededRandom(options.seed);
+  const next = () => random.next();
+  const mode = options.mode ?? MatchMode.STANDARD;
+  const survival = isSurvivalMode(mode);
+
+  const ball = new Ball(court.width, court.height, options.ballSize);
+  if (survival) {
+    // The ball keeps speeding up until the player misses.
+    ball.maxSpeed = Infinity;
+  }
+
+  return {
+    tick: 0,
+    phase: MatchPhase.IDLE,
+    court: {...court},
+    balls: [ball],
+    leftPaddle: new Paddle(
+        PONG_CONFIG.PADDLE_MARGIN, court.height,
+        options.leftPaddlePhysics ?? null),
+    // The survival CPU never misses, so it moves without momentum.
+    rightPaddle: new Paddle(
+        getRightPaddleX(court), court.height,
+        mode === MatchMode.SURVIVAL_AI ? null :
+                                         options.rightPaddlePhysics ?? null),
+    leftAi: options.leftAi != null && !survival ?
+        new AiStrategy(options.leftAi, next) :
+        null,
+    rightAi: options.rightAi != null && !survival ?
+        new AiStrategy(options.rightAi, next) :
+        null,
+    mode,
+    rules: options.rules ?? DEFAULT_MATCH_RULES,
+    timeLimitTicks: msToTicks(options.timeLimit ?? 0),
+    timeLeftTicks: 0,
+    survivalAim: 0,
+    scores: {left: 0, right: 0},
+    sets: {left: 0, right: 0},
+    firstServer: 'left',
+    serveTicks: 0,
+    // Survival is a test of returning a single ball.
+    powerUps: !!options.powerUps && !survival,
+    powerUp: null,
+    powerUpTicks: 0,
+    chaos: !!options.chaos && !survival,
+    rallyHits: 0,
+    stats: createMatchStats(),
+    random,
+  };
+}
+
+function getRightPaddleX(court: Dimensions): number {
+  return court.width - PONG_CONFIG.PADDLE_MARGIN - PONG_CONFIG.PADDLE_WIDTH;
+}
+
+function msToTicks(ms: number): number {
+  return Math.round(ms / TICK_MS);
+}
+
+/**
+ * Reset scores and positions, and serve the first point.
+ */
+export function startMatch(state: MatchState) {
+  state.timeLeftTicks = state.timeLimitTicks;
+  state.scores = {left: 0, right: 0};
+  state.sets = {left: 0, right: 0};
+  state.firstServer = state.random.next() > 0.5 ? 'left' : 'right';
+  state.balls = [state.balls[0]!];
+  state.balls[0]!.reset();
+  state.leftPaddle.reset();
+  state.rightPaddle.reset();
+  state.phase = MatchPhase.SERVE;
+  state.serveTicks = msToTicks(PONG_CONFIG.START_DELAY);
+  state.powerUp = null;
+  state.powerUpTicks = msToTicks(PONG_CONFIG.POWER_UP_SPAWN_DELAY);
+  state.stats = createMatchStats();
+}
+
+/**
+ * Fit the match into a resized court. Positions and velocities are scaled
+ * with the court, so play carries on where it was, e.g. mid-rally.
+ */
+export function resizeCourt(state: MatchState, court: Dimensions) {
+  if (court.width === state.court.width &&
+      court.height === state.court.height) {
+    return;
+  }
+  const scaleX = court.width / state.court.width;
+  const scaleY = court.height / state.court.height;
+  for (const ball of state.balls) {
+    ball.resize(court.width, court.height);
+  }
+  state.leftPaddle.resize(PONG_CONFIG.PADDLE_MARGIN, court.height);
+  state.rightPaddle.resize(getRightPaddleX(court), court.height);
+  if (state.powerUp) {
+    const half = state.powerUp.size / 2;
+    state.powerUp.x = (state.powerUp.x + half) * scaleX - half;
+    state.powerUp.y = (state.powerUp.y + half) * scaleY - half;
+  }
+  state.court = {...court};
+}
+
+/**
+ * Side serving the next point.
+ */
+export function getServingSide(state: MatchState): Side {
+  if (isSurvivalMode(state.mode)) {
+    // Every ball is served to the player.
+    return 'right';
+  }
+  const setFirstServer =
+      getSetFirstServer(state.sets.left + state.sets.right, state.firstServer);
+  return getServer(state.rules, state.scores, setFirstServer);
+}
+
+/**
+ * Clear the points of a set that has just been won, before the next set's
+ * first serve.
+ */
+function startNextSet(state: MatchState) {
+  if (isSetWon(state.rules, state.scores, 'left') ||
+      isSetWon(state.rules, state.scores, 'right')) {
+    state.scores = {left: 0, right: 0};
+  }
+}
+
+/**
+ * Get the wall the player plays against in survival, if there is one.
+ */
+export function getSurvivalWallBounds(state: MatchState): CollisionBox|null {
+  if (state.mode !== MatchMode.SURVIVAL_WALL) {
+    return null;
+  }
+  const width = PONG_CONFIG.PADDLE_WIDTH;
+  return {
+    x: state.court.width - width,
+    y: 0,
+    width,
+    height: state.court.height,
+  };
+}
+
+/**
+ * Whether time has run out in a time attack match, so the next point wins.
+ */
+export function isSuddenDeath(state: MatchState): boolean {
+  return state.mode === MatchMode.TIME_ATTACK && state.timeLeftTicks === 0;
+}
+
+/**
+ * Get the shield guarding a side's goal, if it has one.
+ */
+export function getShieldBounds(state: MatchState, side: Side): CollisionBox|
+    null {
+  const paddle = side === 'left' ? state.leftPaddle : state.rightPaddle;
+  if (!paddle.hasShield()) {
+    return null;
+  }
+  const width = PONG_CONFIG.SHIELD_WIDTH;
+  return {
+    x: side === 'left' ? 0 : state.court.width - width,
+    y: 0,
+    width,
+    height: state.court.height,
+  };
+}
+
+function getOpponent(side: Side): Side {
+  return side === 'left' ? 'right' : 'left';
+}
+
+/**
+ * Apply one tick of input, or the CPU's choice, to a paddle.
+ */
+function movePaddle(
+    state: MatchState, paddle: Paddle, ai: AiStrategy | null,
+    input: PaddleInput) {
+  if (paddle === state.rightPaddle && state.mode === MatchMode.SURVIVAL_AI) {
+    // Never misses, however fast the ball.
+    const ball = state.balls[0]!;
+    paddle.moveTo(ball.y + ball.size / 2 - state.survivalAim);
+  } else if (ai) {
+    const ball = selectTargetBall(state.balls, paddle) ?? state.balls[0]!;
+    const target = ai.update(ball, paddle, state.court.height, TICK_MS);
+    paddle.moveToward(target.targetY, target.speed);
+  } else if (input.targetY !== null) {
+    paddle.moveTo(input.targetY);
+  } else {
+    paddle.move(Math.max(-1, Math.min(1, input.axis)));
+  }
+}
+
+/**
+ * Give the effect of a power-up to the side that collected it.
+ * @param ball Ball that touched the power-up.
+ */
+function applyPowerUp(
+    state: MatchState, type: PowerUpType, side: Side, ball: Ball) {
+  const duration = msToTicks(PONG_CONFIG.POWER_UP_DURATION);
+  const paddle = side === 'left' ? state.leftPaddle : state.rightPaddle;
+  const opponent = side === 'left' ? state.rightPaddle : state.leftPaddle;
+
+  switch (type) {
+    case PowerUpType.BIG_PADDLE:
+      paddle.grow(duration);
+      break;
+    case PowerUpType.SHRINK_OPPONENT:
+      opponent.shrink(duration);
+      break;
+    case PowerUpType.MULTIBALL:
+      // Fan the extra balls out either side of the collecting ball.
+      for (let i = 0; i < PONG_CONFIG.MULTIBALL_EXTRA_BALLS; i++) {
+        const angle = (i % 2 === 0 ? 1 : -1) * (Math.floor(i / 2) + 1) * 0.35;
+        state.balls.push(ball.split(angle));
+      }
+      break;
+    case PowerUpType.SLOW_BALL:
+      for (const ball of state.balls) {
+        ball.slowDown(duration);
+      }
+      break;
+    case PowerUpType.SHIELD:
+      paddle.raiseShield(duration);
+      break;
+  }
+}
+
+/**
+ * In chaos mode, split a new ball off `ball` every few paddle hits.
+ */
+function updateChaos(state: MatchState, ball: Ball, events: MatchEvent[]) {
+  state.rallyHits++;
+  if (!state.chaos ||
+      state.rallyHits % PONG_CONFIG.CHAOS_HITS_PER_BALL !== 0 ||
+      state.balls.length >= PONG_CONFIG.CHAOS_MAX_BALLS) {
+    return;
+  }
+  const added = ball.split((state.random.next() - 0.5) * 0.8);
+  state.balls.push(added);
+  events.push({type: 'ball-added', ball: added});
+}
+
+/**
+ * Count a return in survival, or pick where the CPU plays the next one.
+ */
+function updateSurvivalReturn(state: MatchState, side: Side) {
+  if (side === 'left') {
+    state.scores.left++;
+  } else {
+    // Vary the return angle, up to half way to the paddle's ends.
+    state.survivalAim =
+        (state.random.next() - 0.5) * state.rightPaddle.height / 2;
+  }
+}
+
+/**
+ * Count down timed power-up effects.
+ */
+function updateEffects(state: MatchState, events: MatchEvent[]) {
+  let expired = state.leftPaddle.updateEffects();
+  expired = state.rightPaddle.updateEffects() || expired;
+  for (const ball of state.balls) {
+    expired = ball.updateEffects() || expired;
+  }
+  if (expired) {
+    events.push({type: 'power-up-expire'});
+  }
+}
+
+/**
+ * Spawn power-ups, and hand them to whoever last hit a ball that touches
+ * them. Only runs while the ball is in play.
+ */
+function updatePowerUps(state: MatchState, events: MatchEvent[]) {
+  if (!state.powerUps) {
+    return;
+  }
+
+  if (!state.powerUp) {
+    state.powerUpTicks--;
+    if (state.powerUpTicks <= 0) {
+      state.powerUp = spawnPowerUp(state.court, () => state.random.next());
+      events.push({type: 'power-up-spawn'});
+    }
+    return;
+  }
+
+  const bounds = getPowerUpBounds(state.powerUp);
+  for (const ball of state.balls) {
+    const ballBounds = ball.getBounds();
+    const touching = ball.lastHitter !== null &&
+        ballBounds.x < bounds.x + bounds.width &&
+        ballBounds.x + ballBounds.width > bounds.x &&
+        ballBounds.y < bounds.y + bounds.height &&
+        ballBounds.y + ballBounds.height > bounds.y;
+    if (touching) {
+      const side = ball.lastHitter!;
+      const type = state.powerUp.type;
+      state.powerUp = null;
+      state.powerUpTicks = msToTicks(PONG_CONFIG.POWER_UP_SPAWN_DELAY);
+      applyPowerUp(state, type, side, ball);
+      events.push({type: 'power-up-collect', side, powerUp: type});
+      return;
+    }
+  }
+}
+
+/**
+ * End the match.
+ */
+function endMatch(state: MatchState, winner: Side, events: MatchEvent[]) {
+  state.phase = MatchPhase.OVER;
+  events.push({type: 'match-over', winner});
+}
+
+/**
+ * Count down a time attack match. When time runs out the leader wins, or
+ * with the scores level the next point does.
+ */
+function updateTimeAttack(state: MatchState, events: MatchEvent[]) {
+  if (state.mode !== MatchMode.TIME_ATTACK || state.timeLeftTicks === 0 ||
+      (state.phase !== MatchPhase.SERVE && state.phase !== MatchPhase.RALLY)) {
+    return;
+  }
+  state.timeLeftTicks--;
+  if (state.timeLeftTicks > 0) {
+    return;
+  }
+  events.push({type: 'time-up'});
+  const {left, right} = state.scores;
+  if (left !== right) {
+    endMatch(state, left > right ? 'left' : 'right', events);
+  }
+}
+
+/**
+ * A ball got past the player in survival, which ends the match. The score is
+ * the returns made, counted as they happen.
+ */
+function missSurvivalBall(
+    state: MatchState, ball: Ball, exitedSide: Side, events: MatchEvent[]) {
+  if (exitedSide === 'left') {
+    endMatch(state, 'right', events);
+    return;
+  }
+  // Past the CPU somehow, serve again.
+  state.phase = MatchPhase.SERVE;
+  state.serveTicks = msToTicks(PONG_CONFIG.SCORE_DELAY);
+  ball.reset();
+}
+
+/**
+ * Score a ball that left the court through `exitedSide`, ending the rally if
+ * it was the last ball in play or won the set.
+ * @return Whether the match is over.
+ */
+function scoreBall(
+    state: MatchState, ball: Ball, exitedSide: Side,
+    events: MatchEvent[]): boolean {
+  if (isSurvivalMode(state.mode)) {
+    missSurvivalBall(state, ball, exitedSide, events);
+    return state.phase === MatchPhase.OVER;
+  }
+
+  const scorer = getOpponent(exitedSide);
+  state.scores[scorer]++;
+  state.balls.splice(state.balls.indexOf(ball), 1);
+  // Time attack has no sets, the match ends when time runs out.
+  const setOver = state.mode === MatchMode.STANDARD &&
+      isSetWon(state.rules, state.scores, scorer);
+  let matchOver = isSuddenDeath(state);
+  const rallyOver = setOver || matchOver || state.balls.length === 0;
+  events.push({type: 'score', scorer, rallyOver});
+
+  if (setOver) {
+    state.sets[scorer]++;
+    matchOver = state.sets[scorer] >= getSetsToWin(state.rules);
+    events.push({type: 'set-over', winner: scorer});
+  }
+
+  if (!rallyOver) {
+    return false;
+  }
+  // Keep the ball that ended the rally for the next serve.
+  state.balls = [ball];
+  if (matchOver) {
+    endMatch(state, scorer, events);
+  } else {
+    state.phase = MatchPhase.SERVE;
+    state.serveTicks = msToTicks(PONG_CONFIG.SCORE_DELAY);
+    ball.reset();
+  }
+  return matchOver;
+}
+
+/**
+ * Advance the match by one fixed tick. Deterministic: the outcome depends
+ * only on `state` and `inputs`, so tests can drive it without a canvas or
+ * timers.
+ * @return Events that happened during the tick.
+ */
+export function step(state: MatchState, inputs: TickInputs): MatchEvent[] {
+  const started = state.phase !== MatchPhase.IDLE &&
+      state.phase !== MatchPhase.OVER;
+  const events = advanceMatch(state, inputs);
+  if (started) {
+    updateMatchStats(state.stats, events, state.balls);
+  }
+  return events;
+}
+
+/**
+ * Play one tick of the match, see `step()`.
+ */
+function advanceMatch(state: MatchState, inputs: TickInputs): MatchEvent[] {
+  const events: MatchEvent[] = [];
+  const {leftPaddle, rightPaddle} = state;
+
+  state.tick++;
+  for (const ball of state.balls) {
+    ball.savePosition();
+  }
+  leftPaddle.savePosition();
+  rightPaddle.savePosition();
+
+  updateEffects(state, events);
+  updateTimeAttack(state, events);
+  if (state.phase === MatchPhase.OVER) {
+    return events;
+  }
+  movePaddle(state, leftPaddle, state.leftAi, inputs.left);
+  movePaddle(state, rightPaddle, state.rightAi, inputs.right);
+
+  if (state.phase === MatchPhase.SERVE) {
+    state.serveTicks--;
+    if (state.serveTicks <= 0) {
+      startNextSet(state);
+      state.balls[0]!.launch(
+          getServingSide(state) === 'right', () => state.random.next());
+      state.phase = MatchPhase.RALLY;
+      state.rallyHits = 0;
+      events.push({type: 'serve'});
+    }
+  } else if (state.phase === MatchPhase.RALLY) {
+    const shields = new Map<CollisionBox, Side>();
+    for (const side of ['left', 'right'] as Side[]) {
+      const bounds = getShieldBounds(state, side);
+      if (bounds) {
+        shields.set(bounds, side);
+      }
+    }
+    const barriers = [...shields.keys()];
+    // In survival against a wall, the wall stands in for the right paddle.
+    const wall = getSurvivalWallBounds(state);
+    const paddles = wall ? [leftPaddle] : [leftPaddle, rightPaddle];
+    if (wall) {
+      barriers.push(wall);
+    }
+
+    // Update balls, bouncing off paddles, and check for scoring. Each ball
+    // that leaves the court scores, but the rally goes on until the last one
+    // is out. Once a ball ends the rally, e.g. by winning the set, the others
+    // are out of play and must not score on the same tick.
+    for (const ball of [...state.balls]) {
+      if (state.phase !== MatchPhase.RALLY) {
+        break;
+      }
+      if (!state.balls.includes(ball)) {
+        continue;
+      }
+      for (const ballEvent of ball.update(paddles, barriers)) {
+        switch (ballEvent.type) {
+          case 'paddle-hit': {
+            const side = ballEvent.paddle === leftPaddle ? 'left' : 'right';
+            ball.lastHitter = side;
+            events.push({type: 'paddle-hit', side, ball, edge: ballEvent.edge});
+            updateChaos(state, ball, events);
+            if (isSurvivalMode(state.mode)) {
+              updateSurvivalReturn(state, side);
+            }
+            break;
+          }
+          case 'wall-bounce':
+            events.push({type: 'wall-bounce', ball});
+            break;
+          case 'barrier-hit':
+            if (ballEvent.barrier === wall) {
+              events.push({type: 'wall-return', ball});
+            } else {
+              events.push({
+                type: 'shield-hit',
+                side: shields.get(ballEvent.barrier)!,
+                ball,
+              });
+            }
+            break;
+          case 'exit':
+            if (scoreBall(state, ball, ballEvent.side, events)) {
+              return events;
+            }
+            break;
+        }
+      }
+    }
+
+    updatePowerUps(state, events);
+  }
+
+  return events;
+}
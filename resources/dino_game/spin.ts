@@ -0,0 +1,50 @@
+// Copyright 2025 The Chromium Authors
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import {PONG_CONFIG} from './constants.js';
+
+/**
+ * Steepest heading of a curving ball, from horizontal. Spin never bends the
+ * ball into a near-vertical path.
+ */
+export const MAX_CURVE_ANGLE: number = Math.PI / 3;
+
+/**
+ * Spin given to the ball by a paddle hit. The ball curves the way the paddle
+ * was moving, and a still paddle takes the spin off.
+ * @param paddleVelocity Paddle movement in px per tick, positive downward.
+ * @return Spin in radians of heading change per tick, positive curving
+ *     downward.
+ */
+export function getSpinFromPaddle(paddleVelocity: number): number {
+  const spin = paddleVelocity * PONG_CONFIG.SPIN_PER_PADDLE_SPEED;
+  return Math.max(-PONG_CONFIG.MAX_SPIN, Math.min(PONG_CONFIG.MAX_SPIN, spin));
+}
+
+/**
+ * Turn a velocity by one tick of spin, keeping its speed and horizontal
+ * direction.
+ */
+export function curveVelocity(
+    vx: number, vy: number, spin: number): {vx: number, vy: number} {
+  if (spin === 0 || vx === 0) {
+    return {vx, vy};
+  }
+  const speed = Math.sqrt(vx * vx + vy * vy);
+  const heading = Math.max(
+      -MAX_CURVE_ANGLE,
+      Math.min(MAX_CURVE_ANGLE, Math.atan2(vy, Math.abs(vx)) + spin));
+  return {
+    vx: Math.cos(heading) * speed * Math.sign(vx),
+    vy: Math.sin(heading) * speed,
+  };
+}
+
+/**
+ * Spin left after one tick, settling to none.
+ */
+export function decaySpin(spin: number): number {
+  const decayed = spin * PONG_CONFIG.SPIN_DECAY;
+  return Math.abs(decayed) < PONG_CONFIG.MIN_SPIN ? 0 : decayed;
+}
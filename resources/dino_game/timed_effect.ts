@@ -0,0 +1,42 @@
+// Copyright 2025 The Chromium Authors
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+/**
+ * An effect that lasts for a number of simulation ticks, e.g. a power-up on
+ * a paddle. Counting in ticks rather than ms keeps matches deterministic.
+ */
+export class TimedEffect {
+  private ticksLeft: number = 0;
+
+  /**
+   * Start the effect, or restart it if it is already active.
+   */
+  start(ticks: number) {
+    this.ticksLeft = Math.max(0, Math.round(ticks));
+  }
+
+  cancel() {
+    this.ticksLeft = 0;
+  }
+
+  isActive(): boolean {
+    return this.ticksLeft > 0;
+  }
+
+  getTicksLeft(): number {
+    return this.ticksLeft;
+  }
+
+  /**
+   * Count down one tick.
+   * @return Whether the effect ended on this tick.
+   */
+  tick(): boolean {
+    if (this.ticksLeft === 0) {
+      return false;
+    }
+    this.ticksLeft--;
+    return this.ticksLeft === 0;
+  }
+}
@@ -132,7 +132,11 @@ function getSuggestionsSummaryItemCssClass(data: TemplateData): string {
 // Implements button clicks.  This function is needed during the transition
 // between implementing these in trunk chromium and implementing them in iOS.
 function reloadButtonClick(e: Event) {
-  const url = (e.target as HTMLElement).dataset['url'];
+  reload((e.target as HTMLElement).dataset['url']);
+}
+
+// Reloads the page, from the reload button or the game's back online prompt.
+function reload(url: string|undefined) {
   if (window.errorPageController) {
     // <if expr="is_ios">
     window.errorPageController.reloadButtonClick(url);
@@ -237,7 +241,10 @@ function onTemplateDataReceived(newData: TemplateData) {
     document.documentElement.classList.add('offline');
     // Set loadTimeData.data because it is used by the dino code.
     loadTimeData.data = newData;
-    Runner.initializeInstance('.interstitial-wrapper');
+    // The game offers to reload once the network is back.
+    Runner.initializeInstance(
+        '.interstitial-wrapper',
+        () => reload(newData.reloadButton?.reloadUrl ?? window.location.href));
   }
 }
 
@@ -0,0 +1,55 @@
+// Copyright 2025 The Chromium Authors
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import {addMatchResult, decodePongRecord, EMPTY_PONG_RECORD, encodePongRecord, mergePongRecords} from '../../resources/dino_game/pong_record.js';
+import type {PongRecord} from '../../resources/dino_game/pong_record.js';
+import {assertDeepEquals, assertTrue} from 'chrome://webui-test/chai_assert.js';
+
+suite('PongRecord', function() {
+  test('EncodeDecodeRoundTrip', function() {
+    const records: PongRecord[] = [
+      EMPTY_PONG_RECORD,
+      {longestStreak: 12, currentStreak: 3, bestMargin: 7, totalWins: 45},
+      // Largest value of each field, which must still fit in a 32-bit int.
+      {longestStreak: 99, currentStreak: 99, bestMargin: 99, totalWins: 2000},
+    ];
+    for (const record of records) {
+      const encoded = encodePongRecord(record);
+      assertTrue(encoded <= 0x7fffffff);
+      assertDeepEquals(record, decodePongRecord(encoded));
+    }
+  });
+
+  test('EncodeClampsFields', function() {
+    const record = {
+      longestStreak: 150,
+      currentStreak: -1,
+      bestMargin: 100,
+      totalWins: 5000,
+    };
+    assertDeepEquals(
+        {longestStreak: 99, currentStreak: 0, bestMargin: 99, totalWins: 2000},
+        decodePongRecord(encodePongRecord(record)));
+  });
+
+  test('MergeAddsWinsAndContinuesStreak', function() {
+    const stored =
+        {longestStreak: 5, currentStreak: 4, bestMargin: 6, totalWins: 10};
+    const page = addMatchResult(
+        addMatchResult(EMPTY_PONG_RECORD, true, 3), true, 8);
+    assertDeepEquals(
+        {longestStreak: 6, currentStreak: 6, bestMargin: 8, totalWins: 12},
+        mergePongRecords(stored, page, false));
+  });
+
+  test('MergeAfterLossKeepsPageStreak', function() {
+    const stored =
+        {longestStreak: 5, currentStreak: 4, bestMargin: 6, totalWins: 10};
+    const page = addMatchResult(
+        addMatchResult(EMPTY_PONG_RECORD, false, -2), true, 1);
+    assertDeepEquals(
+        {longestStreak: 5, currentStreak: 1, bestMargin: 6, totalWins: 11},
+        mergePongRecords(stored, page, true));
+  });
+});